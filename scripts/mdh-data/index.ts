@@ -0,0 +1,234 @@
+/**
+ * mdh-data: regenerate the application data from the HTML image map and the
+ * domain analysis report.
+ *
+ *   npm run mdh-data -- parse     [--input <html>] [--output <areas.json>]
+ *   npm run mdh-data -- integrate [--areas <areas.json>] [--report <report.json>] [--output <app-data.json>] [--unmatched <report.json>]
+ *   npm run mdh-data -- build     [--input <html>] [--report <report.json>] [--output <app-data.json>] [--unmatched <report.json>]
+ */
+
+import { dirname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { AppData } from '../../src/types';
+import { formatValidationIssue, validateAppData } from '../../src/utils/validation';
+import { DomainIssue, formatDomainIssue, normalizeHref } from '../../src/utils/domainNormalizer';
+import { analyzeDataQuality } from '../../src/utils/dataQuality';
+import { parseAreaMap } from './parse';
+import { buildUnmatchedReport, integrateAnalytics } from './integrate';
+import { findLatestReport, readJson, readText, writeJson } from './io';
+import { AnalyticsReport, ParsedArea, PipelineOptions, UnmatchedAreasReport } from './types';
+
+const DEFAULT_PATHS = {
+  HTML_MAP: 'data/extracted-map.html',
+  AREA_MAP: 'data/area-map-data.json',
+  REPORT_DIR: 'data',
+  APP_DATA: 'public/app-data.json',
+  UNMATCHED_REPORT: 'data/unmatched-areas.json',
+  UNMATCHED_REPORT_NAME: 'unmatched-areas.json',
+} as const;
+
+const EXIT_CODES = {
+  OK: 0,
+  INVALID_DATA: 1,
+  USAGE: 2,
+} as const;
+
+const USAGE = `Usage: mdh-data <command> [options]
+
+Commands:
+  parse       Parse the HTML image map into area data
+  integrate   Attach analytics from a report to parsed area data
+  build       Run parse and integrate in one step
+
+Options:
+  -i, --input <path>    HTML image map (default: ${DEFAULT_PATHS.HTML_MAP})
+  -a, --areas <path>    Parsed area data (default: ${DEFAULT_PATHS.AREA_MAP})
+  -r, --report <path>   Analysis report (default: newest ${DEFAULT_PATHS.REPORT_DIR}/report_*.json)
+  -o, --output <path>   Output file (default: ${DEFAULT_PATHS.AREA_MAP} for parse,
+                        ${DEFAULT_PATHS.APP_DATA} otherwise)
+  -u, --unmatched <path>
+                        Unmatched-areas report (default: ${DEFAULT_PATHS.UNMATCHED_REPORT_NAME}
+                        next to --output, else ${DEFAULT_PATHS.UNMATCHED_REPORT})
+  -h, --help            Show this help`;
+
+class UsageError extends Error {}
+
+function resolveReport(options: PipelineOptions): string {
+  const report = options.report ?? findLatestReport(DEFAULT_PATHS.REPORT_DIR);
+  if (!report) {
+    throw new UsageError(`No report found in ${DEFAULT_PATHS.REPORT_DIR}/, pass --report`);
+  }
+  return report;
+}
+
+function runParse(options: PipelineOptions): ParsedArea[] {
+  const areas = parseAreaMap(readText(options.input));
+  if (areas.length === 0) {
+    throw new Error(`No <area> elements found in ${options.input}`);
+  }
+
+  console.log(`Parsed ${areas.length} area elements from ${options.input}`);
+  reportAreaKinds(areas);
+  reportUnnormalizedHrefs(areas);
+  return areas;
+}
+
+function reportAreaKinds(areas: readonly ParsedArea[]): void {
+  const counts = new Map<string, number>();
+  areas.forEach(area => counts.set(area.kind, (counts.get(area.kind) ?? 0) + 1));
+  counts.forEach((count, kind) => console.log(`- ${kind}: ${count}`));
+}
+
+/**
+ * List hrefs the domain normaliser rejected, one example per reason
+ */
+function reportUnnormalizedHrefs(areas: readonly ParsedArea[]): void {
+  const byReason = new Map<string, DomainIssue[]>();
+  areas.forEach(area => {
+    const normalized = normalizeHref(area.href);
+    if (!normalized.success) {
+      byReason.set(normalized.error.reason, [...(byReason.get(normalized.error.reason) ?? []), normalized.error]);
+    }
+  });
+  if (byReason.size === 0) return;
+
+  const total = Array.from(byReason.values()).reduce((sum, issues) => sum + issues.length, 0);
+  console.log(`⚠️  ${total} hrefs have no normalisable domain and keep the raw href:`);
+  byReason.forEach((issues, reason) => {
+    console.log(`- ${reason} (${issues.length}), e.g. ${formatDomainIssue(issues[0])}`);
+  });
+}
+
+interface IntegrationResult {
+  readonly appData: AppData;
+  readonly unmatched: UnmatchedAreasReport;
+}
+
+function runIntegrate(areas: readonly ParsedArea[], reportPath: string): IntegrationResult {
+  const report = readJson<AnalyticsReport>(reportPath);
+  console.log(`Analytics data: ${report.domains.length} domains from ${reportPath}`);
+
+  const appData = integrateAnalytics(areas, report);
+  const unmatched = buildUnmatchedReport(appData, reportPath);
+  const { metadata } = appData;
+
+  console.log('\nIntegration Results:');
+  console.log(`- Areas with analytics: ${metadata.areasWithAnalytics}`);
+  Object.entries(unmatched.matchedByStrategy).forEach(([strategy, count]) => {
+    console.log(`  - by ${strategy}: ${count}`);
+  });
+  console.log(`- Areas without analytics: ${metadata.areasWithoutAnalytics}`);
+  Object.entries(unmatched.unmatchedByReason).forEach(([reason, count]) => {
+    console.log(`  - ${reason}: ${count}`);
+  });
+  console.log(`- Match rate: ${metadata.matchRate}%`);
+  console.log(`- Report summary: ${metadata.analyticsMetadata.summary ? 'included' : 'missing, app will recompute it'}`);
+  reportDataQuality(appData);
+
+  return { appData, unmatched };
+}
+
+/**
+ * List coordinate problems; they are warnings, the data is still written
+ */
+function reportDataQuality(appData: AppData): void {
+  const { issues, counts } = analyzeDataQuality(appData.areas);
+  if (issues.length === 0) return;
+
+  console.log(`\n⚠️  ${issues.length} data-quality issues:`);
+  Object.entries(counts)
+    .filter(([, count]) => count > 0)
+    .forEach(([kind, count]) => console.log(`- ${kind}: ${count}`));
+  issues.slice(0, 20).forEach(issue => console.log(`  - ${issue.message}`));
+  if (issues.length > 20) {
+    console.log(`  - ...and ${issues.length - 20} more`);
+  }
+}
+
+/**
+ * Write the app data and the unmatched-areas report, only when the data
+ * satisfies the schema
+ */
+function writeAppData({ appData, unmatched }: IntegrationResult, options: PipelineOptions): number {
+  const validation = validateAppData(appData);
+  if (!validation.success) {
+    const issues = validation.error;
+    console.error(`\n❌ Generated data violates the app schema (${issues.length} issues):`);
+    issues.slice(0, 20).forEach(issue => console.error(`- ${formatValidationIssue(issue)}`));
+    if (issues.length > 20) {
+      console.error(`- ...and ${issues.length - 20} more`);
+    }
+    return EXIT_CODES.INVALID_DATA;
+  }
+
+  const output = options.output ?? DEFAULT_PATHS.APP_DATA;
+  writeJson(output, appData);
+  console.log(`\n✅ App data saved to ${output}`);
+  writeJson(options.unmatched, unmatched);
+  console.log(`✅ Unmatched-areas report saved to ${options.unmatched}`);
+  return EXIT_CODES.OK;
+}
+
+function run(argv: string[]): number {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      input: { type: 'string', short: 'i', default: DEFAULT_PATHS.HTML_MAP },
+      areas: { type: 'string', short: 'a', default: DEFAULT_PATHS.AREA_MAP },
+      report: { type: 'string', short: 'r' },
+      output: { type: 'string', short: 'o' },
+      unmatched: { type: 'string', short: 'u' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const [command] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? EXIT_CODES.OK : EXIT_CODES.USAGE;
+  }
+
+  const options: PipelineOptions = {
+    input: values.input,
+    areas: values.areas,
+    report: values.report ?? null,
+    output: values.output ?? null,
+    // A custom --output keeps its report beside it rather than over the tracked one
+    unmatched: values.unmatched ?? (values.output
+      ? join(dirname(values.output), DEFAULT_PATHS.UNMATCHED_REPORT_NAME)
+      : DEFAULT_PATHS.UNMATCHED_REPORT),
+  };
+
+  switch (command) {
+    case 'parse': {
+      const output = options.output ?? DEFAULT_PATHS.AREA_MAP;
+      writeJson(output, runParse(options));
+      console.log(`✅ Area map data saved to ${output}`);
+      return EXIT_CODES.OK;
+    }
+    case 'integrate': {
+      const areas = readJson<ParsedArea[]>(options.areas);
+      console.log(`Area map data: ${areas.length} areas from ${options.areas}`);
+      return writeAppData(runIntegrate(areas, resolveReport(options)), options);
+    }
+    case 'build': {
+      return writeAppData(runIntegrate(runParse(options), resolveReport(options)), options);
+    }
+    default:
+      throw new UsageError(`Unknown command "${command}"`);
+  }
+}
+
+try {
+  process.exitCode = run(process.argv.slice(2));
+} catch (error) {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`mdh-data: ${message}`);
+  if (error instanceof UsageError || (error as NodeJS.ErrnoException).code === 'ERR_PARSE_ARGS_UNKNOWN_OPTION') {
+    console.error(`\n${USAGE}`);
+    process.exitCode = EXIT_CODES.USAGE;
+  } else {
+    process.exitCode = EXIT_CODES.INVALID_DATA;
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Attach analytics from a domain report to parsed areas and build AppData
+ *
+ * Each area is matched against the report with these strategies, in order:
+ *
+ * 1. normalized  - the href's normalised hostname is a report entry
+ * 2. registrable - its registrable domain (eTLD+1) is, or exactly one entry
+ *                  shares that registrable domain
+ * 3. redirect    - the href is a tracking or affiliate link whose target URL
+ *                  (e.g. `?TargetURL=http://...`) matches by 1 or 2
+ *
+ * The outcome, including why nothing matched, is kept on every area.
+ */
+
+import {
+  AnalyticsMatch,
+  AppData,
+  AreaData,
+  CoordinateRange,
+  DomainAnalytics,
+  MatchStrategy,
+  UnmatchedReason
+} from '../../src/types';
+import { MATCH_STRATEGY, UNMATCHED_REASON } from '../../src/constants';
+import { analyticsUtils } from '../../src/utils';
+import { NormalizedDomain, normalizeDomain, normalizeHref } from '../../src/utils/domainNormalizer';
+import { AnalyticsReport, ParsedArea, UnmatchedAreasReport } from './types';
+
+interface ReportIndex {
+  readonly byHostname: Map<string, DomainAnalytics>;
+  readonly byRegistrable: Map<string, DomainAnalytics[]>;
+}
+
+interface ReportMatch {
+  readonly entry: DomainAnalytics;
+  readonly strategy: MatchStrategy;
+}
+
+// An absolute URL inside another URL, raw or percent-encoded
+const EMBEDDED_URL_REGEX = /https?(?::|%3A)(?:\/\/|%2F%2F)[^&\s]+/i;
+
+function indexReport(report: AnalyticsReport): ReportIndex {
+  const byHostname = new Map<string, DomainAnalytics>();
+  const byRegistrable = new Map<string, DomainAnalytics[]>();
+
+  report.domains.forEach(entry => {
+    const normalized = normalizeDomain(entry.domain);
+    if (!normalized.success) return;
+
+    byHostname.set(normalized.data.hostname, entry);
+    const siblings = byRegistrable.get(normalized.data.registrableDomain) ?? [];
+    byRegistrable.set(normalized.data.registrableDomain, [...siblings, entry]);
+  });
+
+  return { byHostname, byRegistrable };
+}
+
+function findEntry(domain: NormalizedDomain, index: ReportIndex): ReportMatch | null {
+  const exact = index.byHostname.get(domain.hostname);
+  if (exact) return { entry: exact, strategy: MATCH_STRATEGY.NORMALIZED };
+
+  // Several subdomains of one registrable domain are ambiguous; leave them unmatched
+  const siblings = index.byRegistrable.get(domain.registrableDomain) ?? [];
+  const registrable = index.byHostname.get(domain.registrableDomain) ?? (siblings.length === 1 ? siblings[0] : null);
+  return registrable ? { entry: registrable, strategy: MATCH_STRATEGY.REGISTRABLE } : null;
+}
+
+/**
+ * Target of a redirecting href, e.g. the `page=` URL of an affiliate click-through
+ */
+function getRedirectTarget(href: string): NormalizedDomain | null {
+  const hostStart = href.indexOf('//');
+  const match = href.slice(hostStart === -1 ? 0 : hostStart + 2).match(EMBEDDED_URL_REGEX);
+  if (!match) return null;
+
+  let target: string;
+  try {
+    target = decodeURIComponent(match[0]);
+  } catch {
+    return null;
+  }
+
+  const normalized = normalizeHref(target);
+  return normalized.success ? normalized.data : null;
+}
+
+function unmatched(reason: UnmatchedReason, detail: string): AnalyticsMatch {
+  return { status: 'unmatched', reason, detail };
+}
+
+/**
+ * Match one area against the report, trying each strategy in order
+ */
+function matchArea(area: ParsedArea, index: ReportIndex): { analytics: DomainAnalytics | null; match: AnalyticsMatch } {
+  const own = normalizeHref(area.href);
+  const direct = own.success ? findEntry(own.data, index) : null;
+  const redirectTarget = direct ? null : getRedirectTarget(area.href);
+  const redirected = redirectTarget ? findEntry(redirectTarget, index) : null;
+
+  const found = direct ?? (redirected && { entry: redirected.entry, strategy: MATCH_STRATEGY.REDIRECT });
+  if (found) {
+    return {
+      analytics: found.entry,
+      match: { status: 'matched', strategy: found.strategy, reportDomain: found.entry.domain }
+    };
+  }
+
+  if (!own.success) {
+    return { analytics: null, match: unmatched(UNMATCHED_REASON.NO_DOMAIN, own.error.message) };
+  }
+
+  const { hostname, registrableDomain } = own.data;
+  const tried = hostname === registrableDomain ? hostname : `${hostname} or ${registrableDomain}`;
+  const viaRedirect = redirectTarget ? `, nor for its redirect target ${redirectTarget.hostname}` : '';
+  return {
+    analytics: null,
+    match: unmatched(UNMATCHED_REASON.NOT_IN_REPORT, `No report entry for ${tried}${viaRedirect}`)
+  };
+}
+
+/**
+ * Compute the bounding range of all area rectangles
+ */
+export function getCoordinateRange(areas: readonly ParsedArea[]): CoordinateRange {
+  return {
+    minX: Math.min(...areas.map(area => area.coordinates.x)),
+    maxX: Math.max(...areas.map(area => area.coordinates.x + area.coordinates.width)),
+    minY: Math.min(...areas.map(area => area.coordinates.y)),
+    maxY: Math.max(...areas.map(area => area.coordinates.y + area.coordinates.height))
+  };
+}
+
+/**
+ * Match every area against the report by domain and assemble the app data file
+ */
+export function integrateAnalytics(areas: readonly ParsedArea[], report: AnalyticsReport): AppData {
+  const index = indexReport(report);
+
+  const integrated: AreaData[] = areas.map(area => {
+    const { analytics, match } = matchArea(area, index);
+    return {
+      ...area,
+      analytics,
+      hasAnalytics: analytics !== null,
+      analyticsMatch: match
+    };
+  });
+
+  const withAnalytics = integrated.filter(area => area.hasAnalytics).length;
+
+  return {
+    metadata: {
+      totalAreas: integrated.length,
+      areasWithAnalytics: withAnalytics,
+      areasWithoutAnalytics: integrated.length - withAnalytics,
+      matchRate: ((withAnalytics / integrated.length) * 100).toFixed(1),
+      coordinateRange: getCoordinateRange(integrated),
+      analyticsMetadata: {
+        ...report.metadata,
+        // Without a report summary the app recomputes the distributions at load time
+        ...(report.summary && { summary: analyticsUtils.normalizeReportSummary(report.summary) })
+      }
+    },
+    areas: integrated
+  };
+}
+
+/**
+ * Summarise how areas were matched and list every area that was not
+ */
+export function buildUnmatchedReport(appData: AppData, analyticsReport: string): UnmatchedAreasReport {
+  const matchedByStrategy: Record<MatchStrategy, number> = { normalized: 0, registrable: 0, redirect: 0 };
+  const unmatchedByReason: Record<UnmatchedReason, number> = { no_domain: 0, not_in_report: 0 };
+  const unmatchedAreas: UnmatchedAreasReport['areas'][number][] = [];
+
+  appData.areas.forEach(area => {
+    const match = area.analyticsMatch;
+    if (match.status === 'matched') {
+      matchedByStrategy[match.strategy]++;
+      return;
+    }
+    unmatchedByReason[match.reason]++;
+    unmatchedAreas.push({
+      id: area.id,
+      domain: area.domain,
+      href: area.href,
+      title: area.title,
+      kind: area.kind,
+      reason: match.reason,
+      detail: match.detail
+    });
+  });
+
+  return {
+    analyticsReport,
+    totalAreas: appData.areas.length,
+    unmatchedAreas: unmatchedAreas.length,
+    matchedByStrategy,
+    unmatchedByReason,
+    areas: unmatchedAreas
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * File helpers for the mdh-data pipeline
+ */
+
+import { mkdirSync, readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+
+export function readText(path: string): string {
+  return readFileSync(path, 'utf8');
+}
+
+export function readJson<T>(path: string): T {
+  return JSON.parse(readText(path)) as T;
+}
+
+/**
+ * Write pretty-printed JSON, creating the parent directory when needed
+ */
+export function writeJson(path: string, data: unknown): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(data, null, 2));
+}
+
+/**
+ * Find the most recent analyzer report. Report names embed their timestamp
+ * (report_YYYYMMDD_HHMMSS.json), so the lexically greatest one is the newest.
+ */
+export function findLatestReport(directory: string): string | null {
+  let files: string[];
+  try {
+    files = readdirSync(directory);
+  } catch {
+    return null;
+  }
+
+  const reports = files.filter(file => /^report_.*\.json$/.test(file)).sort();
+  return reports.length > 0 ? join(directory, reports[reports.length - 1]) : null;
+}
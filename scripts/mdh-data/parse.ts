@@ -0,0 +1,100 @@
+/**
+ * Parse the Million Dollar Homepage HTML image map into pixel areas
+ */
+
+import { AreaKind } from '../../src/types';
+import { AREA_KIND } from '../../src/constants';
+import { normalizeHref } from '../../src/utils/domainNormalizer';
+import { ParsedArea } from './types';
+
+const AREA_REGEX = /<area[^>]*>/g;
+
+// The homepage's own domain; links to it point back at the site itself
+const HOMEPAGE_DOMAIN = 'milliondollarhomepage.com';
+
+// Placeholder hrefs are free text such as "Paid & Reserved - <name>", so the
+// first pattern that matches the decoded text wins. Typos ("Pendiing") included.
+const PLACEHOLDER_PATTERNS: ReadonlyArray<[RegExp, AreaKind]> = [
+  [/\bpendi+ng\s+order\b/i, AREA_KIND.PENDING],
+  [/\breserved\b/i, AREA_KIND.RESERVED],
+  [/\bsuspended\b/i, AREA_KIND.SUSPENDED],
+  [/\b(?:mdhp|million\s*dollar\s*home\s*page)\b/i, AREA_KIND.INTERNAL]
+];
+
+/**
+ * Extract a single attribute value from a raw <area> tag
+ */
+function getAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`${name}="([^"]+)"`));
+  return match ? match[1] : null;
+}
+
+/**
+ * Derive the domain an area links to from its href. Hrefs without a usable
+ * host (reservations, pending orders) keep the raw href as their domain.
+ */
+export function parseDomain(href: string): string {
+  const normalized = normalizeHref(href);
+  return normalized.success ? normalized.data.hostname : href;
+}
+
+function decodeHref(href: string): string {
+  try {
+    return decodeURIComponent(href);
+  } catch {
+    return href;
+  }
+}
+
+/**
+ * Classify what an area links to. Hrefs with a usable host are domains
+ * (or internal links to the homepage); the rest are sorted by their text.
+ */
+export function classifyHref(href: string): AreaKind {
+  const normalized = normalizeHref(href);
+  if (normalized.success) {
+    return normalized.data.registrableDomain === HOMEPAGE_DOMAIN ? AREA_KIND.INTERNAL : AREA_KIND.DOMAIN;
+  }
+
+  const text = decodeHref(href);
+  const match = PLACEHOLDER_PATTERNS.find(([pattern]) => pattern.test(text));
+  return match ? match[1] : AREA_KIND.MALFORMED;
+}
+
+/**
+ * Parse every <area> element of the image map. Area ids are the element's
+ * position in the document, so skipped elements leave a gap in the ids.
+ */
+export function parseAreaMap(html: string): ParsedArea[] {
+  const tags = html.match(AREA_REGEX) || [];
+  const areas: ParsedArea[] = [];
+
+  tags.forEach((tag, index) => {
+    const coords = getAttribute(tag, 'coords');
+    const href = getAttribute(tag, 'href');
+
+    if (!coords || !href) {
+      return;
+    }
+
+    const rawCoords = coords.split(',').map(Number);
+    const [x1, y1, x2, y2] = rawCoords;
+
+    areas.push({
+      id: index,
+      domain: parseDomain(href),
+      title: getAttribute(tag, 'title') || '',
+      href,
+      kind: classifyHref(href),
+      coordinates: {
+        x: x1,
+        y: y1,
+        width: x2 - x1,
+        height: y2 - y1
+      },
+      rawCoords
+    });
+  });
+
+  return areas;
+}
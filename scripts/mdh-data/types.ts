@@ -0,0 +1,46 @@
+/**
+ * Type definitions for the mdh-data pipeline inputs and intermediate files
+ */
+
+import { AnalyticsReportSummary, AreaData, AreaKind, DomainAnalytics, MatchStrategy, UnmatchedReason } from '../../src/types';
+
+/** An area parsed from the HTML image map, before analytics are attached */
+export type ParsedArea = Omit<AreaData, 'analytics' | 'hasAnalytics' | 'analyticsMatch'>;
+
+/** Domain analysis report as produced by the external analyzer (data/report_*.json) */
+export interface AnalyticsReport {
+  readonly metadata: {
+    readonly generated_at: string;
+    readonly total_domains: number;
+    readonly description?: string;
+  };
+  readonly summary?: AnalyticsReportSummary;
+  readonly domains: readonly DomainAnalytics[];
+}
+
+/** Areas integrate could not match; no timestamp, so unchanged data rewrites the same file */
+export interface UnmatchedAreasReport {
+  readonly analyticsReport: string;
+  readonly totalAreas: number;
+  readonly unmatchedAreas: number;
+  readonly matchedByStrategy: Record<MatchStrategy, number>;
+  readonly unmatchedByReason: Record<UnmatchedReason, number>;
+  readonly areas: readonly {
+    readonly id: number;
+    readonly domain: string;
+    readonly href: string;
+    readonly title: string;
+    readonly kind: AreaKind;
+    readonly reason: UnmatchedReason;
+    readonly detail: string;
+  }[];
+}
+
+/** Options shared by the pipeline subcommands */
+export interface PipelineOptions {
+  readonly input: string;
+  readonly areas: string;
+  readonly report: string | null;
+  readonly output: string | null;
+  readonly unmatched: string;
+}
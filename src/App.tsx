@@ -1,16 +1,50 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { Suspense, useState, useEffect, useMemo, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { TopBar } from './components/TopBar';
+import { RetroStatsBar } from './components/RetroStatsBar';
+import { DashboardPanel } from './components/DashboardPanel';
 import {
   LazyInteractiveMap,
+  ComponentLoader,
 } from './components/LazyComponents';
 import ErrorBoundary from './components/ErrorBoundary';
 import { CookieBanner } from './components/CookieBanner';
 import { useAppStore } from './stores/appStore';
 import { useGlobalKeyboardShortcuts } from './hooks/useKeyboardNavigation';
-import { AppData } from './types';
+import { useLocalStorage, useUrlStateSync } from './hooks';
+import { DashboardPanelState, DashboardTab, StatsBarStyle } from './types';
+import { DASHBOARD_TABS, STATS_BAR_STYLE, STORAGE_KEYS } from './constants';
+import {
+  AppDataValidationError,
+  ValidationIssue,
+  assertAppData,
+  formatValidationIssue
+} from './utils/validation';
 import './App.css';
 
+const MAX_VISIBLE_VALIDATION_ISSUES = 50;
+
+const DEFAULT_DASHBOARD_PANEL: DashboardPanelState = {
+  isOpen: true,
+  activeTab: DASHBOARD_TABS.SEARCH,
+  statsBarStyle: STATS_BAR_STYLE.CLASSIC
+};
+
+const DASHBOARD_TAB_VALUES: readonly unknown[] = Object.values(DASHBOARD_TABS);
+const STATS_BAR_STYLE_VALUES: readonly unknown[] = Object.values(STATS_BAR_STYLE);
+
+const isDashboardTab = (value: unknown): value is DashboardTab => DASHBOARD_TAB_VALUES.includes(value);
+const isStatsBarStyle = (value: unknown): value is StatsBarStyle => STATS_BAR_STYLE_VALUES.includes(value);
+
+// Saved state may come from an older version or be edited by hand; unknown values fall back to the defaults
+function toPanelState(stored: Partial<DashboardPanelState> | null): DashboardPanelState {
+  return {
+    isOpen: typeof stored?.isOpen === 'boolean' ? stored.isOpen : DEFAULT_DASHBOARD_PANEL.isOpen,
+    activeTab: isDashboardTab(stored?.activeTab) ? stored.activeTab : DEFAULT_DASHBOARD_PANEL.activeTab,
+    statsBarStyle: isStatsBarStyle(stored?.statsBarStyle) ? stored.statsBarStyle : DEFAULT_DASHBOARD_PANEL.statsBarStyle
+  };
+}
+
 const App = React.memo(() => {
   const {
     appData,
@@ -19,19 +53,45 @@ const App = React.memo(() => {
 
   // Enable global keyboard shortcuts
   useGlobalKeyboardShortcuts();
+
+  // Restore shareable state from the URL once data is loaded, then keep it in sync
+  useUrlStateSync(appData !== null);
   
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [validationIssues, setValidationIssues] = useState<readonly ValidationIssue[]>([]);
   const [retryCount, setRetryCount] = useState(0);
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [lastSuccessfulLoad, setLastSuccessfulLoad] = useState<Date | null>(null);
+  const [storedPanel, setStoredPanel] = useLocalStorage<Partial<DashboardPanelState>>(
+    STORAGE_KEYS.DASHBOARD_PANEL,
+    DEFAULT_DASHBOARD_PANEL
+  );
+
+  const panel = useMemo(() => toPanelState(storedPanel), [storedPanel]);
+
+  const togglePanel = useCallback(() => {
+    setStoredPanel({ ...panel, isOpen: !panel.isOpen });
+  }, [panel, setStoredPanel]);
+
+  const changePanelTab = useCallback((activeTab: DashboardTab) => {
+    setStoredPanel({ ...panel, activeTab });
+  }, [panel, setStoredPanel]);
+
+  const toggleStatsBarStyle = useCallback(() => {
+    setStoredPanel({
+      ...panel,
+      statsBarStyle: panel.statsBarStyle === STATS_BAR_STYLE.RETRO ? STATS_BAR_STYLE.CLASSIC : STATS_BAR_STYLE.RETRO
+    });
+  }, [panel, setStoredPanel]);
 
   // Enhanced data loading function with better error handling and user feedback
   const loadAppData = useCallback(async (attempt = 1) => {
     try {
       setLoading(true);
       setError(null);
+      setValidationIssues([]);
       setLoadingProgress(10);
 
       // Check online status
@@ -76,29 +136,8 @@ const App = React.memo(() => {
           throw new Error('Invalid response format. Expected JSON data.');
         }
 
-        const data: AppData = await response.json();
-        
-        // Enhanced data validation
-        if (!data || typeof data !== 'object') {
-          throw new Error('Invalid data format: expected object');
-        }
-
-        if (!data.areas || !Array.isArray(data.areas)) {
-          throw new Error('Invalid data format: missing or invalid areas array');
-        }
-
-        if (data.areas.length === 0) {
-          throw new Error('No domain data available');
-        }
-
-        if (!data.metadata || typeof data.metadata !== 'object') {
-          throw new Error('Invalid data format: missing or invalid metadata');
-        }
-
-        // Validate critical metadata fields
-        if (typeof data.metadata.totalAreas !== 'number' || data.metadata.totalAreas <= 0) {
-          throw new Error('Invalid metadata: totalAreas must be a positive number');
-        }
+        // Validate every field up front so schema problems surface with their exact location
+        const data = assertAppData(await response.json());
 
         setLoadingProgress(100);
         setAppData(data);
@@ -117,7 +156,11 @@ const App = React.memo(() => {
       let errorMessage = 'Failed to load application data';
       let errorDetails = '';
       
-      if (err instanceof Error) {
+      if (err instanceof AppDataValidationError) {
+        errorMessage = err.message;
+        errorDetails = err.issues.slice(0, 5).map(formatValidationIssue).join('\n');
+        setValidationIssues(err.issues);
+      } else if (err instanceof Error) {
         if (err.name === 'AbortError') {
           errorMessage = 'Request timed out';
           errorDetails = 'The request took too long to complete. Please check your connection and try again.';
@@ -143,8 +186,9 @@ const App = React.memo(() => {
         online: navigator.onLine
       });
       
-      // Auto-retry up to 3 times with exponential backoff
-      if (attempt < 3 && navigator.onLine) {
+      // Auto-retry up to 3 times with exponential backoff; invalid data will not fix itself
+      const retryable = !(err instanceof AppDataValidationError);
+      if (retryable && attempt < 3 && navigator.onLine) {
         const delay = Math.pow(2, attempt) * 1000; // 2s, 4s, 8s
         setTimeout(() => {
           setRetryCount(attempt);
@@ -286,6 +330,26 @@ const App = React.memo(() => {
               Last successful load: {lastSuccessfulLoad.toLocaleTimeString()}
             </p>
           )}
+
+          {validationIssues.length > 0 && (
+            <details className="mb-4 p-3 bg-gray-800 border border-red-900 rounded-lg text-left">
+              <summary className="text-sm font-medium text-red-300 cursor-pointer">
+                Schema violations ({validationIssues.length.toLocaleString()})
+              </summary>
+              <ul className="mt-2 max-h-48 overflow-auto space-y-1 text-xs">
+                {validationIssues.slice(0, MAX_VISIBLE_VALIDATION_ISSUES).map((issue, index) => (
+                  <li key={`${issue.path}-${index}`} className="text-gray-300">
+                    <code className="font-mono text-red-300">{issue.path || '/'}</code> {issue.message}
+                  </li>
+                ))}
+                {validationIssues.length > MAX_VISIBLE_VALIDATION_ISSUES && (
+                  <li className="text-gray-500">
+                    …and {(validationIssues.length - MAX_VISIBLE_VALIDATION_ISSUES).toLocaleString()} more
+                  </li>
+                )}
+              </ul>
+            </details>
+          )}
         </div>
 
         <div className="space-y-3">
@@ -319,24 +383,40 @@ const App = React.memo(() => {
         </div>
       </div>
     </div>
-  ), [error, retryCount, loading, handleRetry, isOnline, lastSuccessfulLoad]);
+  ), [error, validationIssues, retryCount, loading, handleRetry, isOnline, lastSuccessfulLoad]);
 
   // Memoize main content before any conditional returns
   const mainContent = useMemo(() => {
     if (!appData) return null;
     
+    const isRetro = panel.statsBarStyle === STATS_BAR_STYLE.RETRO;
+
     return (
       <div className="h-screen w-screen overflow-hidden">
         {/* Full Screen Interactive Map */}
         <main id="main-content" className="h-full w-full">
-          <LazyInteractiveMap />
+          <Suspense fallback={<ComponentLoader name="map" />}>
+            <LazyInteractiveMap
+              className={panel.isOpen ? 'map-container-with-panel' : 'map-container-with-rail'}
+            />
+          </Suspense>
         </main>
         
         {/* Top Stats Bar */}
-        <TopBar />
+        {isRetro ? <RetroStatsBar /> : <TopBar />}
+
+        {/* Dashboard Side Panel */}
+        <DashboardPanel
+          isOpen={panel.isOpen}
+          activeTab={panel.activeTab}
+          isRetro={isRetro}
+          onToggle={togglePanel}
+          onTabChange={changePanelTab}
+          onToggleRetro={toggleStatsBarStyle}
+        />
       </div>
     );
-  }, [appData, totalAreas, areasWithAnalytics, analysisDate]);
+  }, [appData, totalAreas, areasWithAnalytics, analysisDate, panel, togglePanel, changePanelTab, toggleStatsBarStyle]);
 
   // All conditional returns after all hooks
   if (loading) return loadingComponent;
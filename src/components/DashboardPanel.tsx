@@ -0,0 +1,177 @@
+import React, { Suspense, memo } from 'react';
+import {
+  Search,
+  BarChart3,
+  PieChart,
+  Download,
+  ShieldAlert,
+  Terminal,
+  PanelRightClose,
+  PanelRightOpen
+} from 'lucide-react';
+import {
+  LazySearchBox,
+  LazyStatsPanel,
+  LazyDataVisualization,
+  LazyDataQualityPanel,
+  LazyExportData,
+  ComponentLoader,
+  ComponentError
+} from './LazyComponents';
+import ErrorBoundary from './ErrorBoundary';
+import { ExternalBar } from './ExternalBar';
+import { DashboardTab } from '../types';
+import { DASHBOARD_TABS, DASHBOARD_TAB_LABELS } from '../constants';
+
+interface DashboardPanelProps {
+  readonly isOpen: boolean;
+  readonly activeTab: DashboardTab;
+  readonly isRetro: boolean;
+  readonly onToggle: () => void;
+  readonly onTabChange: (tab: DashboardTab) => void;
+  readonly onToggleRetro: () => void;
+}
+
+const TAB_ICONS: Record<DashboardTab, React.ReactNode> = {
+  search: <Search className="w-4 h-4" />,
+  stats: <BarChart3 className="w-4 h-4" />,
+  charts: <PieChart className="w-4 h-4" />,
+  quality: <ShieldAlert className="w-4 h-4" />,
+  export: <Download className="w-4 h-4" />
+};
+
+const TABS: readonly DashboardTab[] = Object.values(DASHBOARD_TABS);
+
+const TabContent: React.FC<{ tab: DashboardTab }> = memo(({ tab }) => {
+  switch (tab) {
+    case DASHBOARD_TABS.SEARCH:
+      return <LazySearchBox />;
+    case DASHBOARD_TABS.STATS:
+      return <LazyStatsPanel />;
+    case DASHBOARD_TABS.CHARTS:
+      return <LazyDataVisualization />;
+    case DASHBOARD_TABS.QUALITY:
+      return <LazyDataQualityPanel />;
+    case DASHBOARD_TABS.EXPORT:
+      return <LazyExportData />;
+  }
+});
+
+TabContent.displayName = 'TabContent';
+
+export const DashboardPanel: React.FC<DashboardPanelProps> = memo(({
+  isOpen,
+  activeTab,
+  isRetro,
+  onToggle,
+  onTabChange,
+  onToggleRetro
+}) => {
+  // Collapsed: a rail of tab shortcuts next to the compact summary cards
+  if (!isOpen) {
+    return (
+      <>
+        <ExternalBar />
+        <nav
+          className="fixed top-8 right-0 bottom-0 z-40 w-12 flex flex-col items-center gap-2 py-3 bg-slate-900/90 backdrop-blur-sm border-l border-slate-700"
+          aria-label="Dashboard"
+        >
+          <button
+            onClick={onToggle}
+            className="p-2 rounded-lg text-slate-200 hover:bg-slate-700 transition-colors"
+            aria-label="Expand dashboard"
+            aria-expanded={false}
+            aria-controls="dashboard-panel"
+          >
+            <PanelRightOpen className="w-4 h-4" />
+          </button>
+          {TABS.map(tab => (
+            <button
+              key={tab}
+              onClick={() => {
+                onTabChange(tab);
+                onToggle();
+              }}
+              className="p-2 rounded-lg text-slate-400 hover:text-slate-200 hover:bg-slate-700 transition-colors"
+              aria-label={`Open ${DASHBOARD_TAB_LABELS[tab]}`}
+              title={DASHBOARD_TAB_LABELS[tab]}
+            >
+              {TAB_ICONS[tab]}
+            </button>
+          ))}
+        </nav>
+      </>
+    );
+  }
+
+  return (
+    <aside
+      id="dashboard-panel"
+      className="fixed top-8 right-0 bottom-0 z-40 w-full md:w-96 flex flex-col bg-gray-50 border-l border-gray-200 shadow-xl"
+      aria-label="Dashboard"
+    >
+      {/* Tab Bar */}
+      <div className="flex items-center gap-1 px-2 py-2 bg-white border-b border-gray-200">
+        <div className="flex flex-1 gap-1" role="tablist" aria-label="Dashboard sections">
+          {TABS.map(tab => (
+            <button
+              key={tab}
+              id={`dashboard-tab-${tab}`}
+              role="tab"
+              aria-selected={activeTab === tab}
+              aria-controls="dashboard-tabpanel"
+              onClick={() => onTabChange(tab)}
+              className={`flex items-center gap-1.5 px-2 sm:px-3 py-1.5 rounded-lg text-xs sm:text-sm font-medium transition-colors ${
+                activeTab === tab
+                  ? 'bg-blue-100 text-blue-800'
+                  : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              {TAB_ICONS[tab]}
+              {DASHBOARD_TAB_LABELS[tab]}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={onToggleRetro}
+          className={`p-1.5 rounded-lg transition-colors ${
+            isRetro ? 'bg-green-100 text-green-800' : 'text-gray-500 hover:bg-gray-100'
+          }`}
+          aria-label="Toggle retro terminal header"
+          aria-pressed={isRetro}
+          title="Retro terminal header"
+        >
+          <Terminal className="w-4 h-4" />
+        </button>
+        <button
+          onClick={onToggle}
+          className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 transition-colors"
+          aria-label="Collapse dashboard"
+          aria-expanded={true}
+          aria-controls="dashboard-panel"
+        >
+          <PanelRightClose className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Active Tab */}
+      <div
+        id="dashboard-tabpanel"
+        role="tabpanel"
+        aria-labelledby={`dashboard-tab-${activeTab}`}
+        className="flex-1 overflow-y-auto p-3 sm:p-4"
+      >
+        <ErrorBoundary
+          key={activeTab}
+          fallback={<ComponentError componentName={DASHBOARD_TAB_LABELS[activeTab].toLowerCase()} />}
+        >
+          <Suspense fallback={<ComponentLoader name={DASHBOARD_TAB_LABELS[activeTab].toLowerCase()} />}>
+            <TabContent tab={activeTab} />
+          </Suspense>
+        </ErrorBoundary>
+      </div>
+    </aside>
+  );
+});
+
+DashboardPanel.displayName = 'DashboardPanel';
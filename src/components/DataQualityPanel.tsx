@@ -0,0 +1,120 @@
+import React, { useCallback, useState, memo } from 'react';
+import { ShieldAlert, CheckCircle, MapPin } from 'lucide-react';
+import { useAppStore } from '../stores/appStore';
+import { DataQualityIssueKind } from '../types';
+import { DATA_QUALITY_ISSUE, DATA_QUALITY_ISSUE_LABELS } from '../constants';
+import { getDrawableBounds } from '../utils/dataQuality';
+
+const KIND_STYLES: Record<DataQualityIssueKind, string> = {
+  out_of_bounds: 'bg-red-100 text-red-800',
+  zero_size: 'bg-orange-100 text-orange-800',
+  duplicate: 'bg-amber-100 text-amber-800',
+  overlap: 'bg-blue-100 text-blue-800'
+};
+
+const KINDS: readonly DataQualityIssueKind[] = Object.values(DATA_QUALITY_ISSUE);
+
+/**
+ * Coordinate problems in the loaded data. Each block in an issue links to it
+ * on the map, unless none of its pixels are inside the image.
+ */
+export const DataQualityPanel: React.FC = memo(() => {
+  const { dataQuality, areasById, selectedAreaIds, selectArea, zoomTo } = useAppStore();
+  const [kindFilter, setKindFilter] = useState<DataQualityIssueKind | null>(null);
+
+  const drawableBounds = useCallback((id: number) => {
+    const area = areasById?.get(id);
+    return area ? getDrawableBounds(area.coordinates) : null;
+  }, [areasById]);
+
+  const showArea = useCallback((id: number) => {
+    const bounds = drawableBounds(id);
+    if (!bounds) return;
+    selectArea(id);
+    zoomTo(bounds);
+  }, [drawableBounds, selectArea, zoomTo]);
+
+  if (!dataQuality) return null;
+
+  const { issues, counts, checkedAreas } = dataQuality;
+  const visibleIssues = kindFilter ? issues.filter(issue => issue.kind === kindFilter) : issues;
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 sm:p-6">
+      <div className="flex items-center gap-2 mb-3 sm:mb-4">
+        <ShieldAlert className="w-4 h-4 sm:w-5 sm:h-5 text-gray-700" />
+        <h2 className="text-base sm:text-lg font-semibold text-gray-800">Data Quality</h2>
+      </div>
+
+      {issues.length === 0 ? (
+        <div className="flex items-center gap-2 p-3 bg-green-50 rounded-lg text-sm text-green-800">
+          <CheckCircle className="w-4 h-4 flex-shrink-0" />
+          All {checkedAreas.toLocaleString()} blocks lie inside the image without overlapping.
+        </div>
+      ) : (
+        <>
+          <p className="text-xs sm:text-sm text-gray-600 mb-3">
+            {issues.length} issue{issues.length !== 1 ? 's' : ''} in {checkedAreas.toLocaleString()} blocks.
+            Blocks reaching outside the image are drawn clipped to it with a red dashed outline;
+            blocks with no pixels inside it cannot be shown on the map.
+          </p>
+
+          <div className="flex flex-wrap gap-1.5 mb-3" role="group" aria-label="Filter issues by type">
+            {KINDS.filter(kind => counts[kind] > 0).map(kind => (
+              <button
+                key={kind}
+                onClick={() => setKindFilter(kindFilter === kind ? null : kind)}
+                className={`px-2 py-1 rounded-full text-xs font-medium transition-opacity ${KIND_STYLES[kind]} ${
+                  kindFilter && kindFilter !== kind ? 'opacity-50' : ''
+                }`}
+                aria-pressed={kindFilter === kind}
+              >
+                {DATA_QUALITY_ISSUE_LABELS[kind]} ({counts[kind]})
+              </button>
+            ))}
+          </div>
+
+          <ul className="space-y-2" aria-label="Data-quality issues">
+            {visibleIssues.map(issue => (
+              <li
+                key={`${issue.kind}-${issue.areaIds.join('-')}`}
+                className="bg-white rounded-lg p-3 border border-gray-200 text-xs sm:text-sm"
+              >
+                <div className="flex items-start gap-2">
+                  <span className={`px-1.5 py-0.5 rounded text-xs font-medium flex-shrink-0 ${KIND_STYLES[issue.kind]}`}>
+                    {DATA_QUALITY_ISSUE_LABELS[issue.kind]}
+                  </span>
+                  <p className="text-gray-700 break-words min-w-0">{issue.message}</p>
+                </div>
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {issue.areaIds.map(id => {
+                    const onMap = drawableBounds(id) !== null;
+                    return (
+                      <button
+                        key={id}
+                        onClick={() => showArea(id)}
+                        disabled={!onMap}
+                        className={`flex items-center gap-1 px-2 py-0.5 rounded border text-xs font-mono transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                          selectedAreaIds.includes(id)
+                            ? 'border-blue-500 bg-blue-50 text-blue-800'
+                            : 'border-gray-300 text-gray-700 hover:bg-gray-100 disabled:hover:bg-transparent'
+                        }`}
+                        aria-label={onMap ? `Show block ${id} on the map` : `Block ${id} is not on the map`}
+                        title={onMap ? undefined : 'No pixels of this block are inside the image'}
+                      >
+                        <MapPin className="w-3 h-3" aria-hidden="true" />
+                        #{id}
+                      </button>
+                    );
+                  })}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+});
+
+DataQualityPanel.displayName = 'DataQualityPanel';
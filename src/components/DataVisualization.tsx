@@ -1,6 +1,10 @@
 import React, { useMemo, memo } from 'react';
 import { BarChart3, PieChart, TrendingUp, Activity } from 'lucide-react';
 import { useAppStore } from '../stores/appStore';
+import { analyticsUtils } from '../utils';
+import { HTTP_STATUS_CLASS, HTTP_STATUS_CLASS_LABELS } from '../constants';
+import { HTTPStatusClass } from '../types';
+import { computeFacets } from '../utils/searchEngine';
 
 interface ChartData {
   label: string;
@@ -156,6 +160,9 @@ function createArcPath(cx: number, cy: number, outerRadius: number, innerRadius:
   ].join(" ");
 }
 
+// Share of a total in percent; an empty selection has no shares
+const percentOf = (count: number, total: number): number => (total > 0 ? (count / total) * 100 : 0);
+
 // Helper function to get color value from Tailwind class
 function getColorValue(colorClass: string): string {
   const colorMap: Record<string, string> = {
@@ -172,106 +179,107 @@ function getColorValue(colorClass: string): string {
 }
 
 export const DataVisualization: React.FC = memo(() => {
-  const { appData, results, query } = useAppStore();
+  const { appData, facets, overviewFacets, query, region, regionAreas } = useAppStore();
 
   if (!appData) return null;
 
-  const currentResults = results.length > 0 ? results : appData.areas;
+  // A region drawn on the map takes precedence over search results; searches are counted in the worker
+  const regionFacets = useMemo(() => (region ? computeFacets(regionAreas) : null), [region, regionAreas]);
+  const currentFacets = regionFacets ?? facets ?? overviewFacets;
+  const matchCount = currentFacets?.total ?? 0;
+
+  // Placeholder blocks (pending, reserved, ...) have no domain, so the charts only count domain blocks;
+  // domain blocks without analytics show as "No Data"
+  const statusCounts = useMemo(() => {
+    const domains = currentFacets?.domains ?? 0;
+    const withNoData = (counts: Readonly<Record<string, number | undefined>>): Record<string, number> => {
+      const entries = Object.entries(counts).filter((entry): entry is [string, number] => entry[1] !== undefined);
+      const noData = domains - entries.reduce((sum, [, count]) => sum + count, 0);
+      return Object.fromEntries(noData > 0 ? [...entries, ['No Data', noData]] : entries);
+    };
+
+    return {
+      total: domains,
+      withAnalytics: currentFacets?.withAnalytics ?? 0,
+      dns: withNoData(currentFacets?.dnsStatus ?? {}),
+      http: withNoData(currentFacets?.httpStatus ?? {}),
+      whois: withNoData(currentFacets?.whoisStatus ?? {})
+    };
+  }, [currentFacets]);
 
   // Memoize chart data calculations
   const dnsStatusData = useMemo(() => {
-    const statusCounts: Record<string, number> = {};
-    const total = currentResults.length;
-
-    currentResults.forEach(area => {
-      if (area.analytics?.dns_status) {
-        statusCounts[area.analytics.dns_status] = (statusCounts[area.analytics.dns_status] || 0) + 1;
-      } else {
-        statusCounts['No Data'] = (statusCounts['No Data'] || 0) + 1;
-      }
-    });
+    const { dns, total } = statusCounts;
 
     const colors = ['bg-green-500', 'bg-red-500', 'bg-yellow-500', 'bg-gray-500'];
-    return Object.entries(statusCounts)
+    return Object.entries(dns)
       .sort(([,a], [,b]) => b - a)
       .slice(0, 4)
       .map(([status, count], index) => ({
         label: status,
         value: count,
-        percentage: (count / total) * 100,
+        percentage: percentOf(count, total),
         color: colors[index] || 'bg-gray-500'
       }));
-  }, [currentResults]);
+  }, [statusCounts]);
 
   const httpStatusData = useMemo(() => {
-    const statusCounts: Record<string, number> = {};
-    const total = currentResults.length;
-
-    currentResults.forEach(area => {
-      if (area.analytics?.http_status !== undefined) {
-        const status = area.analytics.http_status.toString();
-        statusCounts[status] = (statusCounts[status] || 0) + 1;
-      } else {
-        statusCounts['No Data'] = (statusCounts['No Data'] || 0) + 1;
-      }
-    });
-
-    const colors = ['bg-green-500', 'bg-red-500', 'bg-yellow-500', 'bg-purple-500', 'bg-gray-500'];
-    return Object.entries(statusCounts)
+    const { http, total } = statusCounts;
+
+    const classColors: Record<string, string> = {
+      [HTTP_STATUS_CLASS.SUCCESS]: 'bg-green-500',
+      [HTTP_STATUS_CLASS.REDIRECT]: 'bg-yellow-500',
+      [HTTP_STATUS_CLASS.CLIENT_ERROR]: 'bg-red-500',
+      [HTTP_STATUS_CLASS.SERVER_ERROR]: 'bg-purple-500',
+      [HTTP_STATUS_CLASS.UNREACHABLE]: 'bg-gray-500'
+    };
+    return Object.entries(http)
       .sort(([,a], [,b]) => b - a)
-      .slice(0, 5)
-      .map(([status, count], index) => ({
-        label: status === '200' ? 'HTTP 200 (OK)' : status === '0' ? 'No Response' : `HTTP ${status}`,
+      .map(([status, count]) => ({
+        key: status,
+        label: status in HTTP_STATUS_CLASS_LABELS
+          ? analyticsUtils.getHttpStatusClassLabel(status as HTTPStatusClass)
+          : status,
         value: count,
-        percentage: (count / total) * 100,
-        color: colors[index] || 'bg-gray-500'
+        percentage: percentOf(count, total),
+        color: classColors[status] || 'bg-gray-500'
       }));
-  }, [currentResults]);
+  }, [statusCounts]);
 
   const whoisStatusData = useMemo(() => {
-    const statusCounts: Record<string, number> = {};
-    const total = currentResults.length;
-
-    currentResults.forEach(area => {
-      if (area.analytics?.whois_status) {
-        statusCounts[area.analytics.whois_status] = (statusCounts[area.analytics.whois_status] || 0) + 1;
-      } else {
-        statusCounts['No Data'] = (statusCounts['No Data'] || 0) + 1;
-      }
-    });
+    const { whois, total } = statusCounts;
 
     const colors = ['bg-blue-500', 'bg-indigo-500', 'bg-gray-500'];
-    return Object.entries(statusCounts)
+    return Object.entries(whois)
       .sort(([,a], [,b]) => b - a)
       .slice(0, 3)
       .map(([status, count], index) => ({
         label: status.charAt(0).toUpperCase() + status.slice(1),
         value: count,
-        percentage: (count / total) * 100,
+        percentage: percentOf(count, total),
         color: colors[index] || 'bg-gray-500'
       }));
-  }, [currentResults]);
+  }, [statusCounts]);
 
   const analyticsOverviewData = useMemo(() => {
-    const withAnalytics = currentResults.filter(area => area.hasAnalytics).length;
-    const withoutAnalytics = currentResults.length - withAnalytics;
-    const total = currentResults.length;
+    const { withAnalytics, total } = statusCounts;
+    const withoutAnalytics = total - withAnalytics;
 
     return [
       {
         label: 'With Analytics',
         value: withAnalytics,
-        percentage: (withAnalytics / total) * 100,
+        percentage: percentOf(withAnalytics, total),
         color: 'bg-green-500'
       },
       {
         label: 'Without Analytics',
         value: withoutAnalytics,
-        percentage: (withoutAnalytics / total) * 100,
+        percentage: percentOf(withoutAnalytics, total),
         color: 'bg-gray-500'
       }
     ];
-  }, [currentResults]);
+  }, [statusCounts]);
 
   return (
     <div className="space-y-4 sm:space-y-6">
@@ -279,15 +287,24 @@ export const DataVisualization: React.FC = memo(() => {
       <div className="flex items-center gap-2">
         <Activity className="w-5 h-5 text-blue-600" />
         <h2 className="text-lg sm:text-xl font-bold text-gray-800">
-          {query ? 'Search Results Analytics' : 'Data Visualization'}
+          {region ? 'Selection Analytics' : query ? 'Search Results Analytics' : 'Data Visualization'}
         </h2>
       </div>
 
-      {query && (
+      {region && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 sm:p-4">
+          <p className="text-sm text-amber-800">
+            Visualizing data for the map selection
+            {' '}({matchCount} area{matchCount !== 1 ? 's' : ''})
+          </p>
+        </div>
+      )}
+
+      {!region && query && (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 sm:p-4">
           <p className="text-sm text-blue-800">
             Visualizing data for <span className="font-medium">"{query}"</span> 
-            {' '}({currentResults.length} result{currentResults.length !== 1 ? 's' : ''})
+            {' '}({matchCount} result{matchCount !== 1 ? 's' : ''})
           </p>
         </div>
       )}
@@ -299,7 +316,7 @@ export const DataVisualization: React.FC = memo(() => {
           data={analyticsOverviewData}
           title="Analytics Coverage"
           icon={<PieChart className="w-5 h-5 text-blue-600" />}
-          centerValue={currentResults.length.toLocaleString()}
+          centerValue={statusCounts.total.toLocaleString()}
           centerLabel="Total Domains"
         />
 
@@ -344,7 +361,7 @@ export const DataVisualization: React.FC = memo(() => {
             </div>
             <div className="bg-white rounded-lg p-3 shadow-sm">
               <div className="text-2xl font-bold text-purple-600">
-                {((httpStatusData.find(d => d.label.includes('200'))?.percentage || 0)).toFixed(1)}%
+                {((httpStatusData.find(d => d.key === HTTP_STATUS_CLASS.SUCCESS)?.percentage || 0)).toFixed(1)}%
               </div>
               <div className="text-gray-600">HTTP Success</div>
             </div>
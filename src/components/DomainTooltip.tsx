@@ -2,14 +2,15 @@ import React, { useMemo, memo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Calendar, Globe, Server, Clock, ExternalLink, Flag, ShoppingCart } from 'lucide-react';
 import { TooltipData } from '../types';
+import { analyticsUtils } from '../utils';
+import { MATCH_STRATEGY, MATCH_STRATEGY_LABELS, UNMATCHED_REASON_LABELS } from '../constants';
+import { HighlightedText } from './HighlightedText';
 
 interface DomainTooltipProps {
   tooltip: TooltipData;
 }
 
 export const DomainTooltip: React.FC<DomainTooltipProps> = memo(({ tooltip }) => {
-  if (!tooltip.visible) return null;
-
   // Memoize date formatting function
   const formatDate = useMemo(() => (dateString: string) => {
     try {
@@ -23,20 +24,6 @@ export const DomainTooltip: React.FC<DomainTooltipProps> = memo(({ tooltip }) =>
     }
   }, []);
 
-  // Memoize status color function
-  const getStatusColor = useMemo(() => (status: string | number, type: 'dns' | 'http' | 'whois') => {
-    switch (type) {
-      case 'dns':
-        return status === 'NOERROR' ? 'text-green-600 bg-green-50' : 'text-red-600 bg-red-50';
-      case 'http':
-        return status === 200 ? 'text-green-600 bg-green-50' : 'text-red-600 bg-red-50';
-      case 'whois':
-        return status === 'registered' ? 'text-blue-600 bg-blue-50' : 'text-gray-600 bg-gray-50';
-      default:
-        return 'text-gray-600 bg-gray-50';
-    }
-  }, []);
-
   // Memoize formatted dates
   const formattedDates = useMemo(() => {
     if (!tooltip.analytics) return {};
@@ -53,6 +40,15 @@ export const DomainTooltip: React.FC<DomainTooltipProps> = memo(({ tooltip }) =>
     return tooltip.analytics.nameservers;
   }, [tooltip.analytics?.nameservers]);
 
+  // Analytics found through another host than the block's own are labelled with it
+  const matchNote = useMemo(() => {
+    const match = tooltip.analyticsMatch;
+    if (match?.status !== 'matched' || match.strategy === MATCH_STRATEGY.NORMALIZED) return null;
+    return `${MATCH_STRATEGY_LABELS[match.strategy]}: ${match.reportDomain}`;
+  }, [tooltip.analyticsMatch]);
+
+  const unmatched = tooltip.analyticsMatch?.status === 'unmatched' ? tooltip.analyticsMatch : null;
+
   // Calculate optimal tooltip positioning to prevent cutoff
   const getTooltipPosition = useMemo(() => {
     const tooltipWidth = 320; // maxWidth from className
@@ -86,7 +82,9 @@ export const DomainTooltip: React.FC<DomainTooltipProps> = memo(({ tooltip }) =>
     
     return { left, top };
   }, [tooltip.position.x, tooltip.position.y]);
-  
+
+  if (!tooltip.visible) return null;
+
   return (
     <AnimatePresence>
       <motion.div
@@ -107,11 +105,16 @@ export const DomainTooltip: React.FC<DomainTooltipProps> = memo(({ tooltip }) =>
             <div className="flex-1 min-w-0">
               <h3 className="font-semibold text-gray-900 truncate flex items-center gap-2">
                 <Globe className="w-4 h-4 flex-shrink-0" />
-                {tooltip.domain}
+                <HighlightedText text={tooltip.domain} ranges={tooltip.match?.domain} className="truncate" />
               </h3>
               {tooltip.title && (
                 <p className="text-sm text-gray-600 mt-1 line-clamp-2">
-                  {tooltip.title}
+                  <HighlightedText text={tooltip.title} ranges={tooltip.match?.title} />
+                </p>
+              )}
+              {tooltip.blockCount !== undefined && tooltip.blockCount > 1 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  One of {tooltip.blockCount} blocks bought by this domain
                 </p>
               )}
             </div>
@@ -131,15 +134,18 @@ export const DomainTooltip: React.FC<DomainTooltipProps> = memo(({ tooltip }) =>
             <div className="space-y-3">
               {/* Status Indicators */}
               <div className="flex flex-wrap gap-2">
-                <div className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium ${getStatusColor(tooltip.analytics.dns_status, 'dns')}`}>
+                <div className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium ${analyticsUtils.getStatusColor(tooltip.analytics.dns_status, 'dns')}`}>
                   <Globe className="w-3 h-3" />
                   {tooltip.analytics.dns_status}
                 </div>
-                <div className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium ${getStatusColor(tooltip.analytics.http_status, 'http')}`}>
+                <div className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium ${analyticsUtils.getStatusColor(tooltip.analytics.http_status, 'http')}`}>
                   <Flag className="w-3 h-3" />
-                  {tooltip.analytics.http_status}
+                  {tooltip.analytics.http_status || 'No response'}
+                  <span className="font-normal opacity-75">
+                    · {analyticsUtils.getHttpStatusClassLabel(analyticsUtils.getHttpStatusClass(tooltip.analytics.http_status))}
+                  </span>
                 </div>
-                <div className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium ${getStatusColor(tooltip.analytics.whois_status, 'whois')}`}>
+                <div className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium ${analyticsUtils.getStatusColor(tooltip.analytics.whois_status, 'whois')}`}>
                   <ShoppingCart className="w-3 h-3" />
                   {tooltip.analytics.whois_status}
                 </div>
@@ -187,6 +193,11 @@ export const DomainTooltip: React.FC<DomainTooltipProps> = memo(({ tooltip }) =>
                 <div className="text-xs text-gray-500">
                   Analyzed: {formattedDates.analyzed}
                 </div>
+                {matchNote && (
+                  <div className="text-xs text-gray-500 mt-0.5 truncate">
+                    Matched by {matchNote}
+                  </div>
+                )}
               </div>
             </div>
           ) : (
@@ -194,9 +205,11 @@ export const DomainTooltip: React.FC<DomainTooltipProps> = memo(({ tooltip }) =>
               <div className="text-gray-400 mb-2">
                 <Globe className="w-6 h-6 sm:w-8 sm:h-8 mx-auto" />
               </div>
-              <p className="text-xs sm:text-sm text-gray-600">No analytics data available</p>
+              <p className="text-xs sm:text-sm text-gray-600">
+                {unmatched ? UNMATCHED_REASON_LABELS[unmatched.reason] : 'No analytics data available'}
+              </p>
               <p className="text-xs text-gray-500 mt-1">
-                This domain was not included in the analysis
+                {unmatched?.detail || 'This domain was not included in the analysis'}
               </p>
             </div>
           )}
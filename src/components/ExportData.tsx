@@ -1,7 +1,9 @@
-import React, { useState, useCallback, memo } from 'react';
+import React, { useState, useCallback, useMemo, memo } from 'react';
 import { Download, FileText, Table, Code } from 'lucide-react';
 import { useAppStore } from '../stores/appStore';
 import { AreaData } from '../types';
+import { analyticsUtils } from '../utils';
+import { sortAreas } from '../utils/sorting';
 
 type ExportFormat = 'csv' | 'json' | 'txt';
 
@@ -14,7 +16,7 @@ interface ExportOptions {
 }
 
 const ExportData: React.FC = memo(() => {
-  const { appData, results, query, filters } = useAppStore();
+  const { appData, results, query, filters, sort, region, regionAreas } = useAppStore();
   const [isExporting, setIsExporting] = useState(false);
   const [showOptions, setShowOptions] = useState(false);
   const [exportOptions, setExportOptions] = useState<ExportOptions>({
@@ -25,12 +27,17 @@ const ExportData: React.FC = memo(() => {
     onlyFiltered: true
   });
 
-  const getDataToExport = useCallback((): AreaData[] => {
+  // Rows follow the result list's sort; results are already sorted in the store
+  const dataToExport = useMemo((): AreaData[] => {
+    // A region drawn on the map takes precedence over search results
+    if (exportOptions.onlyFiltered && region) {
+      return sortAreas(regionAreas, sort);
+    }
     if (exportOptions.onlyFiltered && results.length > 0) {
       return [...results];
     }
-    return appData?.areas ? [...appData.areas] : [];
-  }, [appData, results, exportOptions.onlyFiltered]);
+    return appData?.areas ? sortAreas(appData.areas, sort) : [];
+  }, [appData, results, sort, region, regionAreas, exportOptions.onlyFiltered]);
 
   const generateCSV = useCallback((data: AreaData[]): string => {
     const headers = ['Domain', 'Title'];
@@ -40,7 +47,7 @@ const ExportData: React.FC = memo(() => {
     }
     
     if (exportOptions.includeAnalytics) {
-      headers.push('DNS Status', 'HTTP Status', 'WHOIS Status', 'Has Analytics');
+      headers.push('DNS Status', 'HTTP Status', 'HTTP Status Class', 'WHOIS Status', 'Has Analytics');
     }
     
     if (exportOptions.includeTimestamps) {
@@ -67,7 +74,8 @@ const ExportData: React.FC = memo(() => {
       if (exportOptions.includeAnalytics) {
         row.push(
           `"${area.analytics?.dns_status || ''}"`,
-          `"${area.analytics?.http_status || ''}"`,
+          `"${area.analytics?.http_status ?? ''}"`,
+          `"${area.analytics ? analyticsUtils.getHttpStatusClass(area.analytics.http_status) : ''}"`,
           `"${area.analytics?.whois_status || ''}"`,
           area.hasAnalytics ? 'true' : 'false'
         );
@@ -102,6 +110,7 @@ const ExportData: React.FC = memo(() => {
         item.analytics = {
           dns_status: area.analytics.dns_status,
           http_status: area.analytics.http_status,
+          http_status_class: analyticsUtils.getHttpStatusClass(area.analytics.http_status),
           whois_status: area.analytics.whois_status,
           has_analytics: area.hasAnalytics
         };
@@ -126,13 +135,15 @@ const ExportData: React.FC = memo(() => {
         total_records: data.length,
         query: query || null,
         filters: Object.keys(filters).length > 0 ? filters : null,
+        sort,
+        region: exportOptions.onlyFiltered ? region : null,
         export_options: exportOptions
       },
       data: exportData
     };
 
     return JSON.stringify(exportObject, null, 2);
-  }, [exportOptions, query, filters]);
+  }, [exportOptions, query, filters, sort, region]);
 
   const generateTXT = useCallback((data: AreaData[]): string => {
     const lines = [
@@ -142,6 +153,7 @@ const ExportData: React.FC = memo(() => {
       `Total Records: ${data.length}`,
       query ? `Search Query: "${query}"` : '',
       Object.keys(filters).length > 0 ? `Filters Applied: ${Object.keys(filters).length}` : '',
+      exportOptions.onlyFiltered && region ? `Map Selection: ${region.kind}` : '',
       '',
       'Domains:',
       '--------'
@@ -155,7 +167,7 @@ const ExportData: React.FC = memo(() => {
       
       if (exportOptions.includeAnalytics && area.analytics) {
         lines.push(`   DNS: ${area.analytics.dns_status || 'N/A'}`);
-        lines.push(`   HTTP: ${area.analytics.http_status || 'N/A'}`);
+        lines.push(`   HTTP: ${area.analytics.http_status} (${analyticsUtils.getHttpStatusClassLabel(analyticsUtils.getHttpStatusClass(area.analytics.http_status))})`);
         lines.push(`   WHOIS: ${area.analytics.whois_status || 'N/A'}`);
       }
       
@@ -167,35 +179,36 @@ const ExportData: React.FC = memo(() => {
     });
 
     return lines.join('\n');
-  }, [exportOptions, query, filters]);
+  }, [exportOptions, query, filters, region]);
 
   const handleExport = useCallback(async () => {
     setIsExporting(true);
     
     try {
-      const data = getDataToExport();
       let content: string;
       let filename: string;
       let mimeType: string;
 
       const timestamp = new Date().toISOString().split('T')[0];
-      const baseFilename = query 
-        ? `mdh-search-${query.replace(/[^a-zA-Z0-9]/g, '_')}-${timestamp}`
-        : `mdh-domains-${timestamp}`;
+      const baseFilename = exportOptions.onlyFiltered && region
+        ? `mdh-selection-${timestamp}`
+        : query
+          ? `mdh-search-${query.replace(/[^a-zA-Z0-9]/g, '_')}-${timestamp}`
+          : `mdh-domains-${timestamp}`;
 
       switch (exportOptions.format) {
         case 'csv':
-          content = generateCSV(data);
+          content = generateCSV(dataToExport);
           filename = `${baseFilename}.csv`;
           mimeType = 'text/csv';
           break;
         case 'json':
-          content = generateJSON(data);
+          content = generateJSON(dataToExport);
           filename = `${baseFilename}.json`;
           mimeType = 'application/json';
           break;
         case 'txt':
-          content = generateTXT(data);
+          content = generateTXT(dataToExport);
           filename = `${baseFilename}.txt`;
           mimeType = 'text/plain';
           break;
@@ -221,9 +234,9 @@ const ExportData: React.FC = memo(() => {
     } finally {
       setIsExporting(false);
     }
-  }, [exportOptions, getDataToExport, generateCSV, generateJSON, generateTXT, query]);
+  }, [exportOptions, dataToExport, generateCSV, generateJSON, generateTXT, query, region]);
 
-  const dataCount = getDataToExport().length;
+  const dataCount = dataToExport.length;
 
   if (!appData) return null;
 
@@ -250,7 +263,9 @@ const ExportData: React.FC = memo(() => {
               <h3 className="text-sm font-medium text-gray-800 mb-2">Export Options</h3>
               <p className="text-xs text-gray-600 mb-3">
                 Exporting {dataCount.toLocaleString()} domain{dataCount !== 1 ? 's' : ''}
-                {query && ` matching "${query}"`}
+                {exportOptions.onlyFiltered && region
+                  ? ' in the map selection'
+                  : query && ` matching "${query}"`}
               </p>
             </div>
 
@@ -290,7 +305,9 @@ const ExportData: React.FC = memo(() => {
                     onChange={(e) => setExportOptions(prev => ({ ...prev, onlyFiltered: e.target.checked }))}
                     className="rounded mr-2"
                   />
-                  Only filtered results ({results.length > 0 ? results.length : appData.areas.length} domains)
+                  {region
+                    ? `Only the map selection (${regionAreas.length} domains)`
+                    : `Only filtered results (${results.length > 0 ? results.length : appData.areas.length} domains)`}
                 </label>
                 <label className="flex items-center text-xs">
                   <input
@@ -1,32 +1,27 @@
 import React, { useMemo, memo } from 'react';
 import { useAppStore } from '../stores/appStore';
+import { DNS_STATUS, HTTP_STATUS_CLASS, WHOIS_STATUS } from '../constants';
 
 export const ExternalBar: React.FC = memo(() => {
-  const { appData } = useAppStore();
+  const { overviewFacets } = useAppStore();
 
   // Calculate statistics from the data
   const stats = useMemo(() => {
-    if (!appData) return null;
+    if (!overviewFacets) return null;
 
-    const areas = appData.areas;
-    const total = areas.length;
+    // Placeholder blocks (pending, reserved, ...) are not domains and stay out of every count
+    const total = overviewFacets.domains;
     
     // Count domains by registration status
-    const registered = areas.filter(area => 
-      area.analytics?.whois_status === 'registered'
-    ).length;
+    const registered = overviewFacets.whoisStatus[WHOIS_STATUS.REGISTERED] ?? 0;
     const available = total - registered;
     
     // Count DNS status
-    const dnsResolved = areas.filter(area => 
-      area.analytics?.dns_status === 'NOERROR'
-    ).length;
+    const dnsResolved = overviewFacets.dnsStatus[DNS_STATUS.NO_ERROR] ?? 0;
     const dnsErrors = total - dnsResolved;
     
     // Count HTTP status
-    const httpSuccess = areas.filter(area => 
-      area.analytics?.http_status === 200
-    ).length;
+    const httpSuccess = overviewFacets.httpStatus[HTTP_STATUS_CLASS.SUCCESS] ?? 0;
     const httpErrors = total - httpSuccess;
     
     // Calculate percentages
@@ -46,12 +41,12 @@ export const ExternalBar: React.FC = memo(() => {
       dnsResolvedPercent,
       httpSuccessPercent
     };
-  }, [appData]);
+  }, [overviewFacets]);
 
   if (!stats) return null;
 
   return (
-    <div className="fixed top-4 right-4 z-50 pointer-events-none">
+    <div className="fixed top-12 right-16 z-30 pointer-events-none hidden md:block">
       <div className="flex flex-col gap-3 max-w-xs">
         {/* Header Card */}
         <div className="bg-slate-900/90 backdrop-blur-sm border border-slate-700 rounded-lg p-3 shadow-lg pointer-events-auto">
@@ -151,7 +146,7 @@ export const ExternalBar: React.FC = memo(() => {
                 {stats.httpSuccess.toLocaleString()}
               </div>
               <div className="text-slate-400 text-xs mt-1">
-                Success (200)
+                Success (2xx)
               </div>
             </div>
             <div className="text-center">
@@ -0,0 +1,64 @@
+import React, { useMemo, memo } from 'react';
+import { MatchRange } from '../types';
+
+interface HighlightedTextProps {
+  readonly text: string;
+  readonly ranges?: readonly MatchRange[];
+  readonly className?: string;
+}
+
+// Sorted, clamped to the text and with overlapping or touching ranges merged
+function normalizeRanges(ranges: readonly MatchRange[], length: number): MatchRange[] {
+  const sorted = ranges
+    .map(([start, end]): MatchRange => [Math.max(0, start), Math.min(length - 1, end)])
+    .filter(([start, end]) => start <= end)
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: [number, number][] = [];
+  sorted.forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+  return merged;
+}
+
+/**
+ * Text with the matched characters wrapped in <mark>. Rendered as React
+ * nodes, so domains and titles never reach the page as HTML.
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = memo(({ text, ranges, className }) => {
+  const segments = useMemo(() => {
+    const merged = normalizeRanges(ranges ?? [], text.length);
+    const parts: { text: string; marked: boolean }[] = [];
+    let position = 0;
+
+    merged.forEach(([start, end]) => {
+      if (start > position) parts.push({ text: text.slice(position, start), marked: false });
+      parts.push({ text: text.slice(start, end + 1), marked: true });
+      position = end + 1;
+    });
+    if (position < text.length) parts.push({ text: text.slice(position), marked: false });
+
+    return parts;
+  }, [text, ranges]);
+
+  return (
+    <span className={className}>
+      {segments.map((segment, index) =>
+        segment.marked ? (
+          <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </span>
+  );
+});
+
+HighlightedText.displayName = 'HighlightedText';
@@ -1,24 +1,168 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo, memo } from 'react';
 import { motion } from 'framer-motion';
+import { ZoomIn, ZoomOut, Maximize2, Layers, Hand, SquareDashed, Lasso, X, Grid3x3, Scan } from 'lucide-react';
 import { useAppStore } from '../stores/appStore';
+import { useZoomPan } from '../hooks/useZoomPan';
+import { useRegionSelect } from '../hooks/useRegionSelect';
+import { useLocalStorage } from '../hooks';
+import { viewportUtils } from '../utils';
 import { DomainTooltip } from './DomainTooltip';
-import { TooltipData, AreaData, BaseComponentProps } from '../types';
+import { MapCanvas, MapCanvasEntry } from './MapCanvas';
+import { MapLegend } from './MapLegend';
+import { Minimap } from './Minimap';
+import { createOverlay } from '../utils/mapOverlay';
+import { getDrawableBounds } from '../utils/dataQuality';
 import {
+  TooltipData,
+  AreaCoordinates,
+  AreaData,
+  BaseComponentProps,
+  MapLayer,
+  MapOverlay,
+  MapRegion,
+  MapRenderer,
+  MapTool
+} from '../types';
+import {
+  AREA_KIND,
+  BLOCK_GRID_CONSTANTS,
+  COLORS,
   IMAGE_CONSTANTS,
-  TOOLTIP_CONSTANTS
+  MAP_CANVAS_CONSTANTS,
+  MAP_LAYER,
+  MAP_LAYER_LABELS,
+  MAP_OVERLAY,
+  MAP_OVERLAY_CONSTANTS,
+  MAP_RENDERER,
+  MAP_TOOL,
+  STORAGE_KEYS,
+  TOOLTIP_CONSTANTS,
+  VIEWPORT_CONSTANTS
 } from '../constants';
 
-interface HtmlMapArea {
-  readonly coords: string;
-  readonly href: string;
-  readonly title: string;
-  readonly domain: string;
+
+const MAP_TOOLS = [
+  { tool: MAP_TOOL.PAN, label: 'Pan', icon: Hand },
+  { tool: MAP_TOOL.RECTANGLE, label: 'Rectangle select (or Shift-drag)', icon: SquareDashed },
+  { tool: MAP_TOOL.LASSO, label: 'Lasso select', icon: Lasso }
+] as const;
+
+// Outline of a drawn region in native image coordinates
+const RegionShape: React.FC<{ region: MapRegion; isDraft?: boolean }> = memo(({ region, isDraft = false }) => {
+  const shapeProps = {
+    fill: COLORS.REGION,
+    stroke: COLORS.STROKE_REGION,
+    strokeWidth: 2,
+    strokeDasharray: isDraft ? '6 4' : undefined,
+    vectorEffect: 'non-scaling-stroke' as const
+  };
+
+  if (region.kind === 'rectangle') {
+    const { x, y, width, height } = region.bounds;
+    return <rect x={x} y={y} width={width} height={height} {...shapeProps} />;
+  }
+
+  return <polygon points={region.points.map(point => `${point.x},${point.y}`).join(' ')} {...shapeProps} />;
+});
+
+RegionShape.displayName = 'RegionShape';
+
+const MAP_LAYERS = [
+  { layer: MAP_LAYER.GRID_LINES, icon: Grid3x3 },
+  { layer: MAP_LAYER.UNLINKED_PIXELS, icon: Scan }
+] as const;
+
+const NO_LAYERS: readonly MapLayer[] = [];
+
+// Inner lines of the 100×100 block grid, in native image coordinates
+const GRID_LINE_OFFSETS = Array.from(
+  { length: BLOCK_GRID_CONSTANTS.COLUMNS - 1 },
+  (_, index) => (index + 1) * BLOCK_GRID_CONSTANTS.CELL_SIZE
+);
+
+interface BlockGridLayerProps {
+  readonly showGridLines: boolean;
+  readonly unlinkedRects: readonly AreaCoordinates[] | null;
 }
 
+// Grid lines and the pixels no area links to, drawn above the blocks
+const BlockGridLayer: React.FC<BlockGridLayerProps> = memo(({ showGridLines, unlinkedRects }) => (
+  <svg
+    className="absolute pointer-events-none"
+    style={{
+      zIndex: 12,
+      left: 0,
+      top: 0,
+      width: `${IMAGE_CONSTANTS.ORIGINAL_WIDTH}px`,
+      height: `${IMAGE_CONSTANTS.ORIGINAL_HEIGHT}px`
+    }}
+    viewBox={`0 0 ${IMAGE_CONSTANTS.ORIGINAL_WIDTH} ${IMAGE_CONSTANTS.ORIGINAL_HEIGHT}`}
+    aria-hidden="true"
+  >
+    {showGridLines && (
+      <g stroke={COLORS.GRID_LINES} strokeWidth={1}>
+        {GRID_LINE_OFFSETS.map(offset => (
+          <React.Fragment key={offset}>
+            <line x1={offset} y1={0} x2={offset} y2={IMAGE_CONSTANTS.ORIGINAL_HEIGHT} vectorEffect="non-scaling-stroke" />
+            <line x1={0} y1={offset} x2={IMAGE_CONSTANTS.ORIGINAL_WIDTH} y2={offset} vectorEffect="non-scaling-stroke" />
+          </React.Fragment>
+        ))}
+      </g>
+    )}
+    {unlinkedRects?.map(({ x, y, width, height }) => (
+      <rect
+        key={`${x},${y}`}
+        x={x}
+        y={y}
+        width={width}
+        height={height}
+        fill={COLORS.UNLINKED}
+        stroke={COLORS.UNLINKED}
+        strokeWidth={2}
+        vectorEffect="non-scaling-stroke"
+      />
+    ))}
+  </svg>
+));
+
+BlockGridLayer.displayName = 'BlockGridLayer';
+
+// Dashed outline around the visible part of blocks that reach outside the image
+const OutOfBoundsLayer: React.FC<{ bounds: readonly AreaCoordinates[] }> = memo(({ bounds }) => (
+  <svg
+    className="absolute pointer-events-none"
+    style={{
+      zIndex: 11,
+      left: 0,
+      top: 0,
+      width: `${IMAGE_CONSTANTS.ORIGINAL_WIDTH}px`,
+      height: `${IMAGE_CONSTANTS.ORIGINAL_HEIGHT}px`
+    }}
+    viewBox={`0 0 ${IMAGE_CONSTANTS.ORIGINAL_WIDTH} ${IMAGE_CONSTANTS.ORIGINAL_HEIGHT}`}
+    aria-hidden="true"
+  >
+    {bounds.map(({ x, y, width, height }) => (
+      <rect
+        key={`${x},${y},${width},${height}`}
+        x={x}
+        y={y}
+        width={width}
+        height={height}
+        fill="none"
+        stroke={COLORS.OUT_OF_BOUNDS}
+        strokeWidth={2}
+        strokeDasharray="4 3"
+        vectorEffect="non-scaling-stroke"
+      />
+    ))}
+  </svg>
+));
+
+OutOfBoundsLayer.displayName = 'OutOfBoundsLayer';
 
 interface InteractiveMapProps extends BaseComponentProps {
   readonly onDomainSelect?: (domain: string) => void;
-  readonly onAreaHover?: (area: AreaData | HtmlMapArea) => void;
+  readonly onAreaHover?: (area: AreaData) => void;
   readonly enableAnimations?: boolean;
 }
 
@@ -31,9 +175,18 @@ export const InteractiveMap: React.FC<InteractiveMapProps> = memo((props) => {
   } = props;
   const {
     appData,
-    selectedDomain,
-    highlightedAreas,
-    setSelectedDomain
+    selectedAreaIds,
+    highlightedAreaIds,
+    region,
+    regionAreas,
+    areasById,
+    advertisers,
+    hoveredAreaIds,
+    blockGrid,
+    matches,
+    selectArea,
+    hoverDomain,
+    clearRegion
   } = useAppStore();
 
   const [tooltip, setTooltip] = useState<TooltipData>({
@@ -46,68 +199,34 @@ export const InteractiveMap: React.FC<InteractiveMapProps> = memo((props) => {
 
   const [imageLoaded, setImageLoaded] = useState(false);
   const [imageError, setImageError] = useState(false);
-  const [htmlMapAreas, setHtmlMapAreas] = useState<HtmlMapArea[]>([]);
+  const [renderer, setRenderer] = useLocalStorage<MapRenderer>(STORAGE_KEYS.MAP_RENDERER, MAP_RENDERER.DOM);
+  const [tool, setTool] = useState<MapTool>(MAP_TOOL.PAN);
+  const [overlay, setOverlay] = useLocalStorage<MapOverlay>(STORAGE_KEYS.MAP_OVERLAY, MAP_OVERLAY.NONE);
+  const [hiddenCategories, setHiddenCategories] = useState<ReadonlySet<string>>(() => new Set());
+  const [layers, setLayers] = useLocalStorage<readonly MapLayer[]>(STORAGE_KEYS.MAP_LAYERS, NO_LAYERS);
   
   const mapRef = useRef<HTMLDivElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
   const animationFrameRef = useRef<number | null>(null);
-  const mapAreasLoadedRef = useRef<boolean>(false);
-
-  // Memoized function to parse domain from href
-  const parseDomain = useMemo(() => (href: string): string => {
-    try {
-      const url = new URL(href);
-      return url.hostname.replace('www.', '');
-    } catch {
-      // If URL parsing fails, try to extract domain from href
-      const match = href.match(/\/\/(?:www\.)?([^/]+)/);
-      return match ? match[1] : href;
-    }
-  }, []);
-
-  // Load and parse the HTML map areas - with protection against multiple loads
-  useEffect(() => {
-    // Prevent multiple loads
-    if (mapAreasLoadedRef.current) {
-      return;
-    }
 
-    const loadMapAreas = async () => {
-      try {
-        mapAreasLoadedRef.current = true;
-        const response = await fetch('/extracted-map.html');
-        const htmlText = await response.text();
-        
-        // Parse the HTML to extract area elements
-        const parser = new DOMParser();
-        const doc = parser.parseFromString(htmlText, 'text/html');
-        const areas = doc.querySelectorAll('area');
-        
-        const parsedAreas = Array.from(areas).map(area => {
-          const href = area.getAttribute('href') || '';
-          const coords = area.getAttribute('coords') || '';
-          const title = area.getAttribute('title') || '';
-          
-          return {
-            coords,
-            href,
-            title,
-            domain: parseDomain(href)
-          };
-        });
-        
-        setHtmlMapAreas(parsedAreas);
-        // console.log(`Loaded ${parsedAreas.length} HTML map areas`);
-        console.log(`InteractiveMap: Loading HTML map areas (component render #${Date.now()})`);
-      } catch (error) {
-        console.error('Failed to load HTML map areas:', error);
-        mapAreasLoadedRef.current = false; // Reset on error to allow retry
-      }
-    };
-
-    loadMapAreas();
-  }, []); // Empty dependency array - load only once
+  // Every block on the map is an AreaData; blocks reaching outside the image are
+  // drawn clipped to it, and blocks with no pixels inside it are not drawn
+  const { areasToRender, clippedBounds, clippedRects } = useMemo(() => {
+    const drawable: AreaData[] = [];
+    const clipped = new Map<number, AreaCoordinates>();
+    (appData?.areas ?? []).forEach(area => {
+      const bounds = getDrawableBounds(area.coordinates);
+      if (!bounds) return;
+      drawable.push(area);
+      if (bounds !== area.coordinates) clipped.set(area.id, bounds);
+    });
+    return { areasToRender: drawable, clippedBounds: clipped, clippedRects: [...clipped.values()] };
+  }, [appData?.areas]);
 
+  const boundsOf = useCallback(
+    (area: AreaData): AreaCoordinates => clippedBounds.get(area.id) ?? area.coordinates,
+    [clippedBounds]
+  );
 
   // Optimized mouse move handler with throttling
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
@@ -129,29 +248,8 @@ export const InteractiveMap: React.FC<InteractiveMapProps> = memo((props) => {
     });
   }, [tooltip.visible]);
 
-  // Optimized area hover handler with memoized domain lookup
-  const domainLookupMap = useMemo(() => {
-    if (!appData?.areas) return new Map();
-    
-    const map = new Map<string, AreaData>();
-    appData.areas.forEach(area => {
-      map.set(area.domain, area);
-    });
-    return map;
-  }, [appData?.areas]);
-
-  const handleAreaHover = useCallback((area: AreaData | HtmlMapArea, e: React.MouseEvent) => {
-    // Check if it's an AreaData or HtmlMapArea
-    const isAreaData = 'analytics' in area;
-    const domain = area.domain;
-    const title = area.title;
-    let analytics = isAreaData ? area.analytics : null;
-    
-    // If it's an HTML map area, use the optimized lookup
-    if (!isAreaData) {
-      const matchingArea = domainLookupMap.get(domain);
-      analytics = matchingArea?.analytics || null;
-    }
+  const handleAreaHover = useCallback((area: AreaData, e: React.MouseEvent) => {
+    const { domain, title, analytics, analyticsMatch } = area;
     
     // Smart tooltip positioning - check if tooltip would be cut off at bottom
     const tooltipHeight = 200; // Approximate tooltip height
@@ -162,10 +260,14 @@ export const InteractiveMap: React.FC<InteractiveMapProps> = memo((props) => {
     // Check if mouse is in bottom half of viewport OR if tooltip would be cut off
     const shouldPositionAbove = mouseY > viewportHeight / 2 || mouseY + tooltipHeight > viewportHeight - 20;
     
+    hoverDomain(domain);
     setTooltip({
       domain,
       title,
       analytics,
+      analyticsMatch,
+      blockCount: advertisers?.get(domain)?.areas.length,
+      match: matches[area.id],
       position: {
         x: e.clientX + TOOLTIP_CONSTANTS.OFFSET_X,
         y: shouldPositionAbove
@@ -177,104 +279,124 @@ export const InteractiveMap: React.FC<InteractiveMapProps> = memo((props) => {
 
     // Call external hover handler if provided
     externalOnAreaHover?.(area);
-  }, [domainLookupMap, externalOnAreaHover]);
+  }, [advertisers, matches, hoverDomain, externalOnAreaHover]);
 
   // Handle area leave
   const handleAreaLeave = useCallback(() => {
+    hoverDomain(null);
     setTooltip(prev => ({ ...prev, visible: false }));
-  }, []);
+  }, [hoverDomain]);
+
+  // Click selects the block; Ctrl/Cmd-click visits the advertiser instead
+  const handleAreaClick = useCallback((area: AreaData, e: React.MouseEvent) => {
+    if (e.ctrlKey || e.metaKey) {
+      if (area.kind === AREA_KIND.DOMAIN) {
+        const url = /^https?:\/\//i.test(area.href) ? area.href : `https://${area.domain}`;
+        window.open(url, '_blank', 'noopener,noreferrer');
+      }
+      return;
+    }
 
-  // Handle area click - works with both existing AreaData and HTML map areas
-  const handleAreaClick = useCallback((area: AreaData | HtmlMapArea) => {
-    setSelectedDomain(area.domain);
+    selectArea(area.id);
     externalOnDomainSelect?.(area.domain);
     // Hide tooltip when area is clicked/selected
     setTooltip(prev => ({ ...prev, visible: false }));
-    
-    // Open domain URL in new tab
-    const url = area.domain.startsWith('http') ? area.domain : `https://${area.domain}`;
-    window.open(url, '_blank', 'noopener,noreferrer');
-    
-    // Refresh the page to fix any tooltip state issues
-    setTimeout(() => {
-      window.location.reload();
-    }, 100);
-    
-    // Optionally scroll to domain in search results
-  }, [setSelectedDomain, externalOnDomainSelect]);
+  }, [selectArea, externalOnDomainSelect]);
 
-  // Scroll to selected domain when it changes
+  const {
+    viewport,
+    size,
+    animate,
+    isDragging,
+    onPointerDown,
+    onClickCapture,
+    zoomIn,
+    zoomOut,
+    fitToScreen,
+    resetScale,
+    panTo
+  } = useZoomPan(mapRef);
+
+  const {
+    draft,
+    beginSelection,
+    onClickCapture: onSelectionClickCapture
+  } = useRegionSelect(mapRef, viewport, size);
+
+  const stageOffset = viewport && size ? viewportUtils.getOffset(viewport, size) : { x: 0, y: 0 };
+
+  // Shift-drag always draws a rectangle; otherwise the active tool decides
+  const handlePointerDown = useCallback((e: React.PointerEvent) => {
+    const activeTool = e.shiftKey ? MAP_TOOL.RECTANGLE : tool;
+    if (activeTool === MAP_TOOL.PAN) {
+      onPointerDown(e);
+    } else {
+      beginSelection(e, activeTool);
+    }
+  }, [tool, onPointerDown, beginSelection]);
+
+  const handleClickCapture = useCallback((e: React.MouseEvent) => {
+    onClickCapture(e);
+    onSelectionClickCapture(e);
+  }, [onClickCapture, onSelectionClickCapture]);
+
+  // Hide tooltip while drawing a region, as while dragging
   useEffect(() => {
-    if (selectedDomain && mapRef.current && appData) {
-      const selectedArea = appData.areas.find(area => area.domain === selectedDomain);
-      if (selectedArea) {
-        // Calculate the center of the selected area
-        const centerX = selectedArea.coordinates.x + selectedArea.coordinates.width / 2;
-        const centerY = selectedArea.coordinates.y + selectedArea.coordinates.height / 2;
-        
-        // Scroll the map container to center the selected area
-        const mapContainer = mapRef.current;
-        const containerRect = mapContainer.getBoundingClientRect();
-        
-        mapContainer.scrollTo({
-          left: centerX - containerRect.width / 2,
-          top: centerY - containerRect.height / 2,
-          behavior: 'smooth'
-        });
-      }
+    if (draft) {
+      setTooltip(prev => ({ ...prev, visible: false }));
     }
-  }, [selectedDomain, appData]);
+  }, [draft]);
 
-  // Hide tooltip when selectedDomain changes (when an area is selected)
+  // Hide tooltip while dragging, the hovered block moves away from the cursor
   useEffect(() => {
-    if (selectedDomain) {
+    if (isDragging) {
       setTooltip(prev => ({ ...prev, visible: false }));
     }
-  }, [selectedDomain]);
+  }, [isDragging]);
+
+  // Hide tooltip when the selection changes (when an area is selected)
+  useEffect(() => {
+    if (selectedAreaIds.length > 0) {
+      setTooltip(prev => ({ ...prev, visible: false }));
+    }
+  }, [selectedAreaIds]);
 
   // Handle clicking on empty areas to clear selection
   const handleMapClick = useCallback((e: React.MouseEvent) => {
     // Only clear selection if clicking on the map container itself (not on areas)
     if (e.target === e.currentTarget) {
-      setSelectedDomain(null);
+      selectArea(null);
     }
-  }, [setSelectedDomain]);
+  }, [selectArea]);
 
-  if (!appData) {
-    return (
-      <div className="flex-1 flex items-center justify-center bg-gray-100 rounded-lg">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-          <p className="text-gray-600">Loading map data...</p>
-        </div>
-      </div>
-    );
-  }
+  // Selection, highlights and hover are sets of area ids
+  const selectedIds = useMemo(() => new Set(selectedAreaIds), [selectedAreaIds]);
+  const highlightedIds = useMemo(() => new Set(highlightedAreaIds), [highlightedAreaIds]);
+  const hoveredIds = useMemo(() => new Set(hoveredAreaIds), [hoveredAreaIds]);
 
   // Memoize highlight functions
-  const isHighlighted = useCallback((domain: string) => {
-    return highlightedAreas.includes(domain) || selectedDomain === domain;
-  }, [highlightedAreas, selectedDomain]);
+  const isHighlighted = useCallback((id: number) => {
+    return highlightedIds.has(id) || selectedIds.has(id);
+  }, [highlightedIds, selectedIds]);
 
-  const getHighlightColor = useCallback((domain: string) => {
-    if (selectedDomain === domain) return 'rgba(59, 130, 246, 0.6)'; // Blue for selected
-    if (highlightedAreas.includes(domain)) return 'rgba(16, 185, 129, 0.4)'; // Green for search results
+  const getHighlightColor = useCallback((id: number) => {
+    if (selectedIds.has(id)) return 'rgba(59, 130, 246, 0.6)'; // Blue for selected
+    if (highlightedIds.has(id)) return 'rgba(16, 185, 129, 0.4)'; // Green for search results
     return 'transparent';
-  }, [selectedDomain, highlightedAreas]);
-
-  // Optimized area rendering with better memoization
-  const areasToRender = useMemo(() => {
-    return htmlMapAreas.length > 0 ? htmlMapAreas : appData?.areas || [];
-  }, [htmlMapAreas, appData?.areas]);
+  }, [selectedIds, highlightedIds]);
 
   // Memoize highlighted and non-highlighted areas separately for better performance
   const { highlightedAreasToRender, nonHighlightedAreas } = useMemo(() => {
-    const highlighted: (AreaData | HtmlMapArea)[] = [];
-    const nonHighlighted: (AreaData | HtmlMapArea)[] = [];
+    const highlighted: AreaData[] = [];
+    const nonHighlighted: AreaData[] = [];
+
+    // The canvas renderer does not partition; skip the work entirely
+    if (renderer === MAP_RENDERER.CANVAS) {
+      return { highlightedAreasToRender: highlighted, nonHighlightedAreas: nonHighlighted };
+    }
     
     areasToRender.forEach((area) => {
-      const domain = area.domain;
-      if (isHighlighted(domain)) {
+      if (isHighlighted(area.id)) {
         highlighted.push(area);
       } else {
         nonHighlighted.push(area);
@@ -285,49 +407,88 @@ export const InteractiveMap: React.FC<InteractiveMapProps> = memo((props) => {
       highlightedAreasToRender: highlighted,
       nonHighlightedAreas: nonHighlighted
     };
-  }, [areasToRender, isHighlighted]);
+  }, [renderer, areasToRender, isHighlighted]);
+
+  // Thematic overlay: every block's category for the chosen metric
+  const mapOverlay = useMemo(() => {
+    return createOverlay(overlay, areasToRender, area => area.analytics);
+  }, [overlay, areasToRender]);
+
+  const getOverlayColor = useCallback((area: AreaData): string | null => {
+    const key = mapOverlay.categoryOf.get(area);
+    if (key === undefined || hiddenCategories.has(key)) return null;
+    return mapOverlay.categories.find(category => category.key === key)?.color ?? null;
+  }, [mapOverlay, hiddenCategories]);
+
+  const changeOverlay = useCallback((next: MapOverlay) => {
+    setOverlay(next);
+    setHiddenCategories(new Set());
+  }, [setOverlay]);
+
+  const toggleOverlayCategory = useCallback((key: string) => {
+    setHiddenCategories(prev => {
+      const next = new Set(prev);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+  }, []);
 
-  // Memoize coordinate parsing for HTML areas to avoid repeated calculations
-  const parsedCoordinates = useMemo(() => {
-    const coordMap = new Map<string, { x: number; y: number; width: number; height: number } | null>();
-    
-    areasToRender.forEach((area, index) => {
-      const isHtmlArea = 'coords' in area;
-      // Create truly unique keys by including coordinates or ID to handle duplicate domains
-      const uniqueKey = isHtmlArea
-        ? `html-${area.domain}-${area.coords}-${index}`
-        : `area-${area.id || index}-${area.domain}`;
-      
-      if (isHtmlArea) {
-        const coords = area.coords.split(',').map(Number);
-        if (coords.length === 4 && !coords.some(isNaN)) {
-          const x = Math.min(coords[0], coords[2]);
-          const y = Math.min(coords[1], coords[3]);
-          const width = Math.abs(coords[2] - coords[0]);
-          const height = Math.abs(coords[3] - coords[1]);
-          
-          // Validate coordinates are within bounds - allow coordinates up to and including the boundary
-          if (x >= 0 && y >= 0 && x + width <= IMAGE_CONSTANTS.ORIGINAL_WIDTH &&
-              y + height <= IMAGE_CONSTANTS.ORIGINAL_HEIGHT && width > 0 && height > 0) {
-            coordMap.set(uniqueKey, { x, y, width, height });
-          } else {
-            coordMap.set(uniqueKey, null);
-          }
-        } else {
-          coordMap.set(uniqueKey, null);
-        }
-      } else {
-        coordMap.set(uniqueKey, {
-          x: area.coordinates.x,
-          y: area.coordinates.y,
-          width: area.coordinates.width,
-          height: area.coordinates.height
-        });
-      }
+  // Canvas renderer input: every drawable area with its rectangle, in render order
+  const canvasLayer = useMemo(() => {
+    if (renderer !== MAP_RENDERER.CANVAS) return { areas: [], entries: [] };
+
+    const entries: MapCanvasEntry[] = areasToRender.map(area => ({ id: area.id, bounds: boundsOf(area) }));
+    return { areas: areasToRender, entries };
+  }, [renderer, areasToRender, boundsOf]);
+
+  // Minimap markers for search hits and the selected blocks
+  const minimapMarkers = useMemo(() => {
+    const toCoordinates = (ids: readonly number[]) => ids.flatMap(id => {
+      const area = areasById?.get(id);
+      return area ? [area.coordinates] : [];
     });
-    
-    return coordMap;
-  }, [areasToRender]);
+
+    return {
+      highlighted: toCoordinates(highlightedAreaIds.filter(id => !selectedIds.has(id))),
+      selected: toCoordinates(selectedAreaIds)
+    };
+  }, [areasById, highlightedAreaIds, selectedAreaIds, selectedIds]);
+
+  const canvasOverlayColors = useMemo(() => {
+    if (overlay === MAP_OVERLAY.NONE) return null;
+    return canvasLayer.areas.map(getOverlayColor);
+  }, [overlay, canvasLayer, getOverlayColor]);
+
+  const handleCanvasHover = useCallback((index: number, e: React.MouseEvent) => {
+    handleAreaHover(canvasLayer.areas[index], e);
+  }, [canvasLayer, handleAreaHover]);
+
+  const handleCanvasClick = useCallback((index: number, e: React.MouseEvent) => {
+    handleAreaClick(canvasLayer.areas[index], e);
+  }, [canvasLayer, handleAreaClick]);
+
+  const toggleLayer = useCallback((layer: MapLayer) => {
+    setLayers(prev => (prev.includes(layer) ? prev.filter(active => active !== layer) : [...prev, layer]));
+  }, [setLayers]);
+
+  const showGridLines = layers.includes(MAP_LAYER.GRID_LINES);
+  const showUnlinked = layers.includes(MAP_LAYER.UNLINKED_PIXELS);
+
+  const toggleRenderer = useCallback(() => {
+    setRenderer(renderer === MAP_RENDERER.CANVAS ? MAP_RENDERER.DOM : MAP_RENDERER.CANVAS);
+  }, [renderer, setRenderer]);
+
+  // After every hook, so the hook count does not change when the data arrives
+  if (!appData) {
+    return (
+      <div className="flex-1 flex items-center justify-center bg-gray-100 rounded-lg">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading map data...</p>
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div
@@ -337,19 +498,32 @@ export const InteractiveMap: React.FC<InteractiveMapProps> = memo((props) => {
       {/* Full Screen Map Container */}
       <div
         ref={mapRef}
-        className="relative h-full w-full overflow-auto flex items-center justify-center"
+        className={`relative h-full w-full overflow-hidden touch-none select-none ${
+          tool !== MAP_TOOL.PAN ? 'cursor-crosshair' : isDragging ? 'cursor-grabbing' : 'cursor-grab'
+        }`}
         onMouseMove={handleMouseMove}
+        onPointerDown={handlePointerDown}
+        onClickCapture={handleClickCapture}
         onClick={handleMapClick}
         role="img"
-        aria-label="Interactive Million Dollar Homepage pixel map"
+        aria-label="Interactive Million Dollar Homepage pixel map. Click a block to select it, Ctrl or Cmd-click to visit it."
         tabIndex={0}
-        style={{
-          paddingTop: 'max(250px, 10vh',
-          paddingBottom: '2vh'
-        }}
       >
-        {/* Background Image - Native 1000x1000 Resolution */}
-        <div className="relative" style={{ minHeight: '1000px', minWidth: '1000px' }}>
+        {/* Zoomable stage - image and overlays share native 1000x1000 coordinates */}
+        <motion.div
+          className="absolute left-0 top-0"
+          style={{
+            width: `${IMAGE_CONSTANTS.ORIGINAL_WIDTH}px`,
+            height: `${IMAGE_CONSTANTS.ORIGINAL_HEIGHT}px`,
+            originX: 0,
+            originY: 0,
+            visibility: viewport ? 'visible' : 'hidden'
+          }}
+          animate={{ x: stageOffset.x, y: stageOffset.y, scale: viewport?.scale ?? 1 }}
+          transition={animate
+            ? { duration: VIEWPORT_CONSTANTS.ANIMATION_DURATION, ease: 'easeInOut' }
+            : { duration: 0 }}
+        >
           <img
             ref={imageRef}
             src="/image-map.png"
@@ -401,8 +575,23 @@ export const InteractiveMap: React.FC<InteractiveMapProps> = memo((props) => {
             </div>
           )}
 
-          {/* HTML Map Areas Overlay - Native 1000x1000 pixel coordinates */}
-          {imageLoaded && !imageError && imageRef.current && (
+          {/* Canvas renderer - all overlays on one layer, hit-tested via a spatial index */}
+          {imageLoaded && !imageError && imageRef.current && renderer === MAP_RENDERER.CANVAS && (
+            <MapCanvas
+              entries={canvasLayer.entries}
+              scale={viewport?.scale ?? 1}
+              selectedIds={selectedIds}
+              highlightedIds={highlightedIds}
+              hoveredIds={hoveredIds}
+              overlayColors={canvasOverlayColors}
+              onAreaHover={handleCanvasHover}
+              onAreaLeave={handleAreaLeave}
+              onAreaClick={handleCanvasClick}
+            />
+          )}
+
+          {/* DOM renderer - one element per area, native 1000x1000 pixel coordinates */}
+          {imageLoaded && !imageError && imageRef.current && renderer === MAP_RENDERER.DOM && (
             <>
               {/* SVG overlay for highlighted areas - native resolution */}
               <svg
@@ -419,34 +608,26 @@ export const InteractiveMap: React.FC<InteractiveMapProps> = memo((props) => {
                 preserveAspectRatio="none"
                 aria-hidden="true"
               >
-                {highlightedAreasToRender.map((area, index) => {
-                  const isHtmlArea = 'coords' in area;
-                  // Create truly unique keys by including coordinates and index
-                  const uniqueKey = isHtmlArea
-                    ? `html-${area.domain}-${area.coords}-${index}`
-                    : `area-${area.id || index}-${area.domain}`;
-                  const coords = parsedCoordinates.get(uniqueKey);
-                  
-                  if (!coords) return null;
-                  
-                  const { x, y, width, height } = coords;
-                  const domain = area.domain;
+                {highlightedAreasToRender.map((area) => {
+                  const { id } = area;
+                  const { x, y, width, height } = boundsOf(area);
+                  const isSelected = selectedIds.has(id);
                   
                   return (
                     <motion.rect
-                      key={`svg-highlighted-${index}-${uniqueKey}`}
+                      key={`svg-highlighted-${id}`}
                       x={x}
                       y={y}
                       width={width}
                       height={height}
-                      fill={getHighlightColor(domain)}
-                      stroke={selectedDomain === domain ? '#3B82F6' : '#10B981'}
+                      fill={getHighlightColor(id)}
+                      stroke={isSelected ? '#3B82F6' : '#10B981'}
                       strokeWidth={2}
                       className="pointer-events-auto cursor-pointer"
                       initial={{ opacity: 0 }}
                       animate={{
-                        opacity: 1,
-                        scale: selectedDomain === domain ? 1.05 : 1
+                        opacity: hoveredIds.has(id) ? MAP_CANVAS_CONSTANTS.HOVER_OPACITY : 1,
+                        scale: isSelected ? 1.05 : 1
                       }}
                       transition={{ duration: 0.2 }}
                       onMouseEnter={(e) => {
@@ -457,7 +638,7 @@ export const InteractiveMap: React.FC<InteractiveMapProps> = memo((props) => {
                         handleAreaHover(area, mouseEvent);
                       }}
                       onMouseLeave={handleAreaLeave}
-                      onClick={() => handleAreaClick(area)}
+                      onClick={(e) => handleAreaClick(area, e)}
                       whileHover={{
                         opacity: 0.8,
                         transition: { duration: 0.1 }
@@ -479,41 +660,188 @@ export const InteractiveMap: React.FC<InteractiveMapProps> = memo((props) => {
                   overflow: 'hidden'
                 }}
               >
-                {nonHighlightedAreas.map((area, index) => {
-                  const isHtmlArea = 'coords' in area;
-                  // Create truly unique keys by including coordinates and index
-                  const uniqueKey = isHtmlArea
-                    ? `html-${area.domain}-${area.coords}-${index}`
-                    : `area-${area.id || index}-${area.domain}`;
-                  const coords = parsedCoordinates.get(uniqueKey);
-                  
-                  if (!coords) return null;
-                  
-                  const { x, y, width, height } = coords;
+                {nonHighlightedAreas.map((area) => {
+                  const { x, y, width, height } = boundsOf(area);
+                  // Hovering any block of a domain lights up all of its blocks
+                  const isHovered = hoveredIds.has(area.id);
+                  const overlayColor = isHovered ? null : getOverlayColor(area);
                   
                   // Use native pixel coordinates directly (1:1 ratio)
                   return (
                     <div
-                      key={`clickable-nonhighlighted-${index}-${uniqueKey}`}
+                      key={`clickable-nonhighlighted-${area.id}`}
                       className="absolute cursor-pointer hover:bg-blue-200 hover:bg-opacity-30 transition-colors pointer-events-auto"
                       style={{
                         left: `${x}px`,
                         top: `${y}px`,
                         width: `${width}px`,
-                        height: `${height}px`
+                        height: `${height}px`,
+                        backgroundColor: isHovered ? COLORS.HOVER : overlayColor ?? undefined,
+                        opacity: overlayColor ? MAP_OVERLAY_CONSTANTS.FILL_OPACITY : undefined
                       }}
                       onMouseEnter={(e) => handleAreaHover(area, e)}
                       onMouseLeave={handleAreaLeave}
-                      onClick={() => handleAreaClick(area)}
+                      onClick={(e) => handleAreaClick(area, e)}
                     />
                   );
                 })}
               </div>
             </>
           )}
-        </div>
+
+          {/* Out-of-bounds warnings - shared by both renderers */}
+          {imageLoaded && !imageError && clippedRects.length > 0 && (
+            <OutOfBoundsLayer bounds={clippedRects} />
+          )}
+
+          {/* Block grid layers - shared by both renderers */}
+          {imageLoaded && !imageError && (showGridLines || showUnlinked) && (
+            <BlockGridLayer
+              showGridLines={showGridLines}
+              unlinkedRects={showUnlinked ? blockGrid?.uncoveredRects ?? null : null}
+            />
+          )}
+
+          {/* Region selection - the committed region and the one being drawn */}
+          {(region || draft) && (
+            <svg
+              className="absolute pointer-events-none"
+              style={{
+                zIndex: 15,
+                left: 0,
+                top: 0,
+                width: `${IMAGE_CONSTANTS.ORIGINAL_WIDTH}px`,
+                height: `${IMAGE_CONSTANTS.ORIGINAL_HEIGHT}px`,
+                overflow: 'visible'
+              }}
+              viewBox={`0 0 ${IMAGE_CONSTANTS.ORIGINAL_WIDTH} ${IMAGE_CONSTANTS.ORIGINAL_HEIGHT}`}
+              aria-hidden="true"
+            >
+              {region && !draft && <RegionShape region={region} />}
+              {draft && <RegionShape region={draft} isDraft />}
+            </svg>
+          )}
+        </motion.div>
       </div>
 
+      {/* Zoom Controls */}
+      <div
+        className="absolute bottom-4 left-4 z-20 flex items-center gap-1 bg-white/90 backdrop-blur-sm border border-gray-200 rounded-lg shadow-lg p-1"
+        role="toolbar"
+        aria-label="Map controls"
+      >
+        <button
+          onClick={zoomOut}
+          disabled={!viewport || viewport.scale <= IMAGE_CONSTANTS.MIN_SCALE}
+          className="p-1.5 rounded text-gray-700 hover:bg-gray-100 disabled:opacity-40 transition-colors"
+          aria-label="Zoom out"
+          title="Zoom out"
+        >
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <span className="w-12 text-center text-xs font-mono text-gray-700" aria-live="polite">
+          {Math.round((viewport?.scale ?? 1) * 100)}%
+        </span>
+        <button
+          onClick={zoomIn}
+          disabled={!viewport || viewport.scale >= IMAGE_CONSTANTS.MAX_SCALE}
+          className="p-1.5 rounded text-gray-700 hover:bg-gray-100 disabled:opacity-40 transition-colors"
+          aria-label="Zoom in"
+          title="Zoom in"
+        >
+          <ZoomIn className="w-4 h-4" />
+        </button>
+        <button
+          onClick={fitToScreen}
+          className="p-1.5 rounded text-gray-700 hover:bg-gray-100 transition-colors"
+          aria-label="Fit map to screen"
+          title="Fit to screen"
+        >
+          <Maximize2 className="w-4 h-4" />
+        </button>
+        <button
+          onClick={resetScale}
+          className="px-2 py-1 rounded text-xs font-mono text-gray-700 hover:bg-gray-100 transition-colors"
+          aria-label="Zoom to actual size"
+          title="Actual size (1:1)"
+        >
+          1:1
+        </button>
+        <div className="w-px h-5 bg-gray-200 mx-1" aria-hidden="true" />
+        {MAP_TOOLS.map(({ tool: value, label, icon: Icon }) => (
+          <button
+            key={value}
+            onClick={() => setTool(value)}
+            className={`p-1.5 rounded transition-colors ${
+              tool === value ? 'bg-blue-100 text-blue-700' : 'text-gray-700 hover:bg-gray-100'
+            }`}
+            aria-label={label}
+            aria-pressed={tool === value}
+            title={label}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+        {region && (
+          <span className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded bg-amber-50 text-xs text-amber-800">
+            {regionAreas.length.toLocaleString()} selected
+            <button
+              onClick={clearRegion}
+              className="p-0.5 rounded hover:bg-amber-100 transition-colors"
+              aria-label="Clear region selection"
+              title="Clear selection"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        )}
+        <div className="w-px h-5 bg-gray-200 mx-1" aria-hidden="true" />
+        {MAP_LAYERS.map(({ layer, icon: Icon }) => (
+          <button
+            key={layer}
+            onClick={() => toggleLayer(layer)}
+            className={`p-1.5 rounded transition-colors ${
+              layers.includes(layer) ? 'bg-blue-100 text-blue-700' : 'text-gray-700 hover:bg-gray-100'
+            }`}
+            aria-label={`Show ${MAP_LAYER_LABELS[layer].toLowerCase()}`}
+            aria-pressed={layers.includes(layer)}
+            title={layer === MAP_LAYER.UNLINKED_PIXELS && blockGrid
+              ? `${MAP_LAYER_LABELS[layer]} (${blockGrid.stats.uncoveredPixels.toLocaleString()})`
+              : MAP_LAYER_LABELS[layer]}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+        <div className="w-px h-5 bg-gray-200 mx-1" aria-hidden="true" />
+        <button
+          onClick={toggleRenderer}
+          className="flex items-center gap-1 px-2 py-1 rounded text-xs font-mono text-gray-700 hover:bg-gray-100 transition-colors"
+          aria-label={`Switch to ${renderer === MAP_RENDERER.CANVAS ? 'DOM' : 'canvas'} renderer`}
+          title="Toggle between the DOM and canvas renderers"
+        >
+          <Layers className="w-4 h-4" />
+          {renderer === MAP_RENDERER.CANVAS ? 'Canvas' : 'DOM'}
+        </button>
+      </div>
+
+      {/* Overview of the whole image */}
+      <Minimap
+        viewport={viewport}
+        size={size}
+        highlightedBlocks={minimapMarkers.highlighted}
+        selectedBlocks={minimapMarkers.selected}
+        onPan={panTo}
+      />
+
+      {/* Overlay picker and legend */}
+      <MapLegend
+        overlay={overlay}
+        categories={mapOverlay.categories}
+        hiddenCategories={hiddenCategories}
+        onOverlayChange={changeOverlay}
+        onToggleCategory={toggleOverlayCategory}
+      />
+
       {/* Tooltip */}
       <DomainTooltip tooltip={tooltip} />
 
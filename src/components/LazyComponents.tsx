@@ -9,6 +9,18 @@ export const LazyExportData = lazy(() =>
   import('./ExportData').then(module => ({ default: module.ExportData }))
 );
 
+export const LazySearchBox = lazy(() => 
+  import('./SearchBox').then(module => ({ default: module.SearchBox }))
+);
+
+export const LazyStatsPanel = lazy(() => 
+  import('./StatsPanel').then(module => ({ default: module.StatsPanel }))
+);
+
+export const LazyDataQualityPanel = lazy(() => 
+  import('./DataQualityPanel').then(module => ({ default: module.DataQualityPanel }))
+);
+
 export const LazyInteractiveMap = lazy(() => 
   import('./InteractiveMap').then(module => ({ default: module.InteractiveMap }))
 );
@@ -0,0 +1,175 @@
+import React, { useState, useEffect, useRef, useCallback, useMemo, memo } from 'react';
+import { AreaCoordinates } from '../types';
+import { COLORS, IMAGE_CONSTANTS, MAP_CANVAS_CONSTANTS, MAP_OVERLAY_CONSTANTS } from '../constants';
+import { createSpatialIndex } from '../utils/spatialIndex';
+
+/** A block to draw, in native image coordinates */
+export interface MapCanvasEntry {
+  readonly id: number;
+  readonly bounds: AreaCoordinates;
+}
+
+interface MapCanvasProps {
+  readonly entries: readonly MapCanvasEntry[];
+  readonly scale: number;
+  // Area ids; hovering a domain hovers all of its blocks
+  readonly selectedIds: ReadonlySet<number>;
+  readonly highlightedIds: ReadonlySet<number>;
+  readonly hoveredIds: ReadonlySet<number>;
+  // Thematic overlay fill per entry; null leaves the entry uncoloured
+  readonly overlayColors?: readonly (string | null)[] | null;
+  readonly onAreaHover: (index: number, e: React.MouseEvent) => void;
+  readonly onAreaLeave: () => void;
+  readonly onAreaClick: (index: number, e: React.MouseEvent) => void;
+}
+
+/**
+ * Draws all area overlays on one canvas and hit-tests through a spatial index,
+ * instead of mounting an element per area. Entries are referred to by index.
+ */
+export const MapCanvas: React.FC<MapCanvasProps> = memo(({
+  entries,
+  scale,
+  selectedIds,
+  highlightedIds,
+  hoveredIds,
+  overlayColors,
+  onAreaHover,
+  onAreaLeave,
+  onAreaClick
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+
+  const spatialIndex = useMemo(
+    () => createSpatialIndex(entries.map((entry, index) => ({ bounds: entry.bounds, item: index }))),
+    [entries]
+  );
+
+  const isHighlighted = useCallback((id: number) => {
+    return highlightedIds.has(id) || selectedIds.has(id);
+  }, [highlightedIds, selectedIds]);
+
+  // The canvas is scaled with the rest of the stage; raise its resolution with the zoom level
+  const resolution = useMemo(() => {
+    const wanted = window.devicePixelRatio * Math.max(1, Math.ceil(scale));
+    const maxResolution = MAP_CANVAS_CONSTANTS.MAX_BACKING_SIZE /
+      Math.max(IMAGE_CONSTANTS.ORIGINAL_WIDTH, IMAGE_CONSTANTS.ORIGINAL_HEIGHT);
+    return Math.min(wanted, maxResolution);
+  }, [scale]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    canvas.width = Math.round(IMAGE_CONSTANTS.ORIGINAL_WIDTH * resolution);
+    canvas.height = Math.round(IMAGE_CONSTANTS.ORIGINAL_HEIGHT * resolution);
+    context.setTransform(resolution, 0, 0, resolution, 0, 0);
+    context.clearRect(0, 0, IMAGE_CONSTANTS.ORIGINAL_WIDTH, IMAGE_CONSTANTS.ORIGINAL_HEIGHT);
+    context.lineWidth = MAP_CANVAS_CONSTANTS.STROKE_WIDTH;
+
+    const drawHighlight = (entry: MapCanvasEntry, hovered: boolean) => {
+      const { x, y, width, height } = entry.bounds;
+      const selected = selectedIds.has(entry.id);
+
+      context.globalAlpha = hovered ? MAP_CANVAS_CONSTANTS.HOVER_OPACITY : 1;
+      context.fillStyle = selected ? COLORS.SELECTED : COLORS.HIGHLIGHTED;
+      context.strokeStyle = selected ? COLORS.STROKE_SELECTED : COLORS.STROKE_HIGHLIGHTED;
+      context.fillRect(x, y, width, height);
+      context.strokeRect(x, y, width, height);
+      context.globalAlpha = 1;
+    };
+
+    // Overlay colours underneath everything else
+    if (overlayColors) {
+      context.globalAlpha = MAP_OVERLAY_CONSTANTS.FILL_OPACITY;
+      entries.forEach((entry, index) => {
+        const color = overlayColors[index];
+        if (color && !isHighlighted(entry.id) && !hoveredIds.has(entry.id)) {
+          context.fillStyle = color;
+          context.fillRect(entry.bounds.x, entry.bounds.y, entry.bounds.width, entry.bounds.height);
+        }
+      });
+      context.globalAlpha = 1;
+    }
+
+    // Search results first, then the selection on top of them
+    const selectedEntries: MapCanvasEntry[] = [];
+    entries.forEach(entry => {
+      if (selectedIds.has(entry.id)) {
+        selectedEntries.push(entry);
+      } else if (highlightedIds.has(entry.id)) {
+        drawHighlight(entry, hoveredIds.has(entry.id));
+      } else if (hoveredIds.has(entry.id)) {
+        context.fillStyle = COLORS.HOVER;
+        context.fillRect(entry.bounds.x, entry.bounds.y, entry.bounds.width, entry.bounds.height);
+      }
+    });
+    selectedEntries.forEach(entry => drawHighlight(entry, hoveredIds.has(entry.id)));
+  }, [entries, highlightedIds, selectedIds, hoveredIds, overlayColors, resolution, isHighlighted]);
+
+  // Highlighted blocks sit above the rest, as in the DOM renderer; later entries win ties
+  const hitTest = useCallback((e: React.MouseEvent<HTMLCanvasElement>): number | null => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * IMAGE_CONSTANTS.ORIGINAL_WIDTH;
+    const y = ((e.clientY - rect.top) / rect.height) * IMAGE_CONSTANTS.ORIGINAL_HEIGHT;
+    const hits = spatialIndex.pointQuery(x, y);
+    if (hits.length === 0) return null;
+
+    const highlightedHits = hits.filter(index => isHighlighted(entries[index].id));
+    const candidates = highlightedHits.length > 0 ? highlightedHits : hits;
+    return candidates[candidates.length - 1];
+  }, [spatialIndex, entries, isHighlighted]);
+
+  const handleMouseMove = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+    const index = hitTest(e);
+    if (index === hoveredIndex) return;
+
+    setHoveredIndex(index);
+    if (index === null) {
+      onAreaLeave();
+    } else {
+      onAreaHover(index, e);
+    }
+  }, [hitTest, hoveredIndex, onAreaHover, onAreaLeave]);
+
+  const handleMouseLeave = useCallback(() => {
+    if (hoveredIndex !== null) {
+      setHoveredIndex(null);
+      onAreaLeave();
+    }
+  }, [hoveredIndex, onAreaLeave]);
+
+  const handleClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+    const index = hitTest(e);
+    if (index !== null) {
+      onAreaClick(index, e);
+    }
+  }, [hitTest, onAreaClick]);
+
+  // Indices refer to the previous entries once they change
+  useEffect(() => {
+    setHoveredIndex(null);
+  }, [entries]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={`absolute ${hoveredIndex !== null ? 'cursor-pointer' : ''}`}
+      style={{
+        zIndex: 10,
+        left: 0,
+        top: 0,
+        width: `${IMAGE_CONSTANTS.ORIGINAL_WIDTH}px`,
+        height: `${IMAGE_CONSTANTS.ORIGINAL_HEIGHT}px`
+      }}
+      onMouseMove={handleMouseMove}
+      onMouseLeave={handleMouseLeave}
+      onClick={handleClick}
+      aria-hidden="true"
+    />
+  );
+});
+
+MapCanvas.displayName = 'MapCanvas';
@@ -0,0 +1,78 @@
+import React, { memo } from 'react';
+import { Palette } from 'lucide-react';
+import { MapOverlay } from '../types';
+import { MAP_OVERLAY, MAP_OVERLAY_LABELS } from '../constants';
+import { OverlayCategory } from '../utils/mapOverlay';
+
+interface MapLegendProps {
+  readonly overlay: MapOverlay;
+  readonly categories: readonly OverlayCategory[];
+  readonly hiddenCategories: ReadonlySet<string>;
+  readonly onOverlayChange: (overlay: MapOverlay) => void;
+  readonly onToggleCategory: (key: string) => void;
+}
+
+/**
+ * Overlay picker and legend. Clicking a category hides or shows its colour on the map.
+ */
+export const MapLegend: React.FC<MapLegendProps> = memo(({
+  overlay,
+  categories,
+  hiddenCategories,
+  onOverlayChange,
+  onToggleCategory
+}) => {
+  return (
+    <div
+      className="absolute bottom-4 right-4 z-20 w-56 bg-white/90 backdrop-blur-sm border border-gray-200 rounded-lg shadow-lg p-2"
+      aria-label="Map overlay"
+      role="group"
+    >
+      <label className="flex items-center gap-2 text-xs font-medium text-gray-700">
+        <Palette className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+        <span className="sr-only">Colour blocks by</span>
+        <select
+          value={overlay}
+          onChange={(e) => onOverlayChange(e.target.value as MapOverlay)}
+          className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded text-xs bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {Object.values(MAP_OVERLAY).map(value => (
+            <option key={value} value={value}>
+              {MAP_OVERLAY_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {overlay !== MAP_OVERLAY.NONE && categories.length > 0 && (
+        <ul className="mt-2 max-h-48 overflow-y-auto space-y-0.5">
+          {categories.map(category => {
+            const isHidden = hiddenCategories.has(category.key);
+            return (
+              <li key={category.key}>
+                <button
+                  onClick={() => onToggleCategory(category.key)}
+                  className={`w-full flex items-center gap-2 px-1.5 py-1 rounded text-xs text-left hover:bg-gray-100 transition-colors ${
+                    isHidden ? 'text-gray-400' : 'text-gray-700'
+                  }`}
+                  aria-pressed={!isHidden}
+                  title={isHidden ? 'Show on map' : 'Hide from map'}
+                >
+                  <span
+                    className="w-3 h-3 rounded-sm flex-shrink-0 border border-black/10"
+                    style={{ backgroundColor: isHidden ? 'transparent' : category.color }}
+                    aria-hidden="true"
+                  />
+                  <span className={`flex-1 truncate ${isHidden ? 'line-through' : ''}`}>{category.label}</span>
+                  <span className="font-mono">{category.count.toLocaleString()}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+});
+
+MapLegend.displayName = 'MapLegend';
@@ -0,0 +1,144 @@
+import React, { useRef, useCallback, useMemo, memo } from 'react';
+import { AreaCoordinates, MapPoint, MapSize, MapViewport } from '../types';
+import { COLORS, IMAGE_CONSTANTS, MINIMAP_CONSTANTS } from '../constants';
+import { coordinateUtils, viewportUtils } from '../utils';
+
+interface MinimapProps {
+  readonly viewport: MapViewport | null;
+  readonly size: MapSize | null;
+  readonly highlightedBlocks: readonly AreaCoordinates[];
+  readonly selectedBlocks: readonly AreaCoordinates[];
+  readonly onPan: (center: MapPoint) => void;
+}
+
+const clampToImage = (bounds: AreaCoordinates): AreaCoordinates => {
+  const x = Math.max(0, bounds.x);
+  const y = Math.max(0, bounds.y);
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(IMAGE_CONSTANTS.ORIGINAL_WIDTH, bounds.x + bounds.width) - x),
+    height: Math.max(0, Math.min(IMAGE_CONSTANTS.ORIGINAL_HEIGHT, bounds.y + bounds.height) - y)
+  };
+};
+
+/**
+ * Overview of the whole image with the visible part of the map framed.
+ * Clicking centres the map there; dragging the frame pans the map.
+ */
+export const Minimap: React.FC<MinimapProps> = memo(({
+  viewport,
+  size,
+  highlightedBlocks,
+  selectedBlocks,
+  onPan
+}) => {
+  // Offset from the pointer to the view centre, so a grabbed frame doesn't jump
+  const grabOffsetRef = useRef<MapPoint | null>(null);
+
+  const visibleBounds = useMemo(
+    () => (viewport && size ? clampToImage(viewportUtils.getVisibleBounds(viewport, size)) : null),
+    [viewport, size]
+  );
+
+  const toImagePoint = useCallback((e: React.PointerEvent<HTMLDivElement>): MapPoint => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * IMAGE_CONSTANTS.ORIGINAL_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * IMAGE_CONSTANTS.ORIGINAL_HEIGHT
+    };
+  }, []);
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (!viewport || (e.pointerType === 'mouse' && e.button !== 0)) return;
+
+    const point = toImagePoint(e);
+    const insideFrame = visibleBounds !== null &&
+      coordinateUtils.rectangleContains(visibleBounds, { ...point, width: 0, height: 0 });
+
+    // Grabbing the frame keeps the pointer where it is on the frame; elsewhere the view jumps to the pointer
+    grabOffsetRef.current = insideFrame
+      ? { x: viewport.centerX - point.x, y: viewport.centerY - point.y }
+      : { x: 0, y: 0 };
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (!insideFrame) onPan(point);
+  }, [viewport, visibleBounds, toImagePoint, onPan]);
+
+  const handlePointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    const offset = grabOffsetRef.current;
+    if (!offset) return;
+
+    const point = toImagePoint(e);
+    onPan({ x: point.x + offset.x, y: point.y + offset.y });
+  }, [toImagePoint, onPan]);
+
+  const handlePointerUp = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    grabOffsetRef.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+  }, []);
+
+  const renderMarker = (block: AreaCoordinates, index: number, radius: number, color: string) => {
+    const center = coordinateUtils.getRectangleCenter(block);
+    return (
+      <circle
+        key={index}
+        cx={center.x}
+        cy={center.y}
+        r={radius}
+        fill={color}
+        stroke="#FFFFFF"
+        strokeWidth={1}
+        vectorEffect="non-scaling-stroke"
+      />
+    );
+  };
+
+  return (
+    <div
+      className="absolute top-12 left-4 z-20 bg-white border border-gray-300 rounded shadow-lg overflow-hidden cursor-pointer touch-none select-none hidden sm:block"
+      style={{ width: `${MINIMAP_CONSTANTS.SIZE}px`, height: `${MINIMAP_CONSTANTS.SIZE}px` }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      aria-label="Map overview"
+      role="img"
+    >
+      <img
+        src="/image-map.png"
+        alt=""
+        className="pixel-art block w-full h-full"
+        draggable={false}
+      />
+      <svg
+        className="absolute inset-0 w-full h-full pointer-events-none"
+        viewBox={`0 0 ${IMAGE_CONSTANTS.ORIGINAL_WIDTH} ${IMAGE_CONSTANTS.ORIGINAL_HEIGHT}`}
+        aria-hidden="true"
+      >
+        {highlightedBlocks.map((block, index) =>
+          renderMarker(block, index, MINIMAP_CONSTANTS.MARKER_RADIUS, COLORS.STROKE_HIGHLIGHTED)
+        )}
+        {selectedBlocks.map((block, index) =>
+          renderMarker(block, index, MINIMAP_CONSTANTS.SELECTED_MARKER_RADIUS, COLORS.STROKE_SELECTED)
+        )}
+        {visibleBounds && (
+          <rect
+            x={visibleBounds.x}
+            y={visibleBounds.y}
+            width={visibleBounds.width}
+            height={visibleBounds.height}
+            fill="rgba(239, 68, 68, 0.1)"
+            stroke={COLORS.MINIMAP_VIEWPORT}
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+    </div>
+  );
+});
+
+Minimap.displayName = 'Minimap';
@@ -1,32 +1,27 @@
 import React, { useMemo, memo } from 'react';
 import { useAppStore } from '../stores/appStore';
+import { DNS_STATUS, HTTP_STATUS_CLASS, WHOIS_STATUS } from '../constants';
 
 export const RetroStatsBar: React.FC = memo(() => {
-  const { appData } = useAppStore();
+  const { overviewFacets } = useAppStore();
 
   // Calculate statistics from the data
   const stats = useMemo(() => {
-    if (!appData) return null;
+    if (!overviewFacets) return null;
 
-    const areas = appData.areas;
-    const total = areas.length;
+    // Placeholder blocks (pending, reserved, ...) are not domains and stay out of every count
+    const total = overviewFacets.domains;
     
     // Count domains by registration status
-    const registered = areas.filter(area => 
-      area.analytics?.whois_status === 'registered'
-    ).length;
+    const registered = overviewFacets.whoisStatus[WHOIS_STATUS.REGISTERED] ?? 0;
     const available = total - registered;
     
     // Count DNS status
-    const dnsResolved = areas.filter(area => 
-      area.analytics?.dns_status === 'NOERROR'
-    ).length;
+    const dnsResolved = overviewFacets.dnsStatus[DNS_STATUS.NO_ERROR] ?? 0;
     const dnsErrors = total - dnsResolved;
     
     // Count HTTP status
-    const httpSuccess = areas.filter(area => 
-      area.analytics?.http_status === 200
-    ).length;
+    const httpSuccess = overviewFacets.httpStatus[HTTP_STATUS_CLASS.SUCCESS] ?? 0;
     const httpErrors = total - httpSuccess;
     
     return {
@@ -38,12 +33,12 @@ export const RetroStatsBar: React.FC = memo(() => {
       httpSuccess,
       httpErrors
     };
-  }, [appData]);
+  }, [overviewFacets]);
 
   if (!stats) return null;
 
   return (
-    <div className="fixed top-0 left-0 right-0 z-50 bg-black console-border console-scanlines relative">
+    <div className="fixed top-0 left-0 right-0 z-50 bg-black console-border console-scanlines">
       <div className="px-4 py-1 relative z-10">
         <div className="flex flex-wrap items-center justify-center gap-4 text-xs retro-console">
           {/* Title */}
@@ -91,7 +86,7 @@ export const RetroStatsBar: React.FC = memo(() => {
           <div className="flex items-center gap-3">
             <div className="flex items-center gap-1">
               <span className="text-green-400 font-bold console-glow">{stats.httpSuccess.toLocaleString()}</span>
-              <span className="text-green-300">HTTP_200</span>
+              <span className="text-green-300">HTTP_2XX</span>
             </div>
             
             <div className="flex items-center gap-1">
@@ -1,75 +1,239 @@
-import React, { useState, useMemo, useCallback, memo } from 'react';
-import { Search, Filter, X, Calendar, Globe, Server, SortAsc, SortDesc } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useCallback, useRef, memo } from 'react';
+import { Search, Filter, X, ArrowUpDown, SortAsc, SortDesc, AlertCircle, Loader2, Clock } from 'lucide-react';
 import { useAppStore } from '../stores/appStore';
-import { SearchFilters } from '../types';
-
-type SortOption = 'domain' | 'title' | 'registered_date' | 'http_status' | 'dns_status';
-type SortDirection = 'asc' | 'desc';
-
-interface AdvancedFilters extends SearchFilters {
-  sortBy?: SortOption;
-  sortDirection?: SortDirection;
-  dateRange?: {
-    start?: string;
-    end?: string;
-  };
-  domainLength?: {
-    min?: number;
-    max?: number;
-  };
-  hasNameservers?: boolean;
-  searchInTitle?: boolean;
+import {
+  AdvertiserMatch,
+  AreaKind,
+  HTTPStatusClass,
+  MatchRange,
+  QuerySyntaxError,
+  SearchFilters,
+  SearchSuggestion,
+  SortField,
+  WHOISStatus
+} from '../types';
+import { advertiserUtils, analyticsUtils, searchUtils } from '../utils';
+import { useListNavigation, useLocalStorage } from '../hooks';
+import { HighlightedText } from './HighlightedText';
+import {
+  AREA_KIND,
+  AREA_KIND_LABELS,
+  HTTP_STATUS_CLASS,
+  SEARCH_CONSTANTS,
+  SEARCH_SUGGESTION_KIND,
+  SEARCH_SUGGESTION_LABELS,
+  SORT_CONSTANTS,
+  SORT_FIELD,
+  SORT_FIELD_LABELS,
+  STORAGE_KEYS
+} from '../constants';
+
+const SORT_FIELDS: readonly SortField[] = Object.values(SORT_FIELD);
+const NO_RECENT_SEARCHES: readonly string[] = [];
+const SUGGESTIONS_ID = 'search-suggestions';
+
+const suggestionId = (index: number) => `search-suggestion-${index}`;
+
+// The typed prefix of a suggestion, for highlighting
+const prefixRanges = (value: string, prefix: string): MatchRange[] =>
+  prefix && value.toLowerCase().startsWith(prefix.toLowerCase()) ? [[0, prefix.length - 1]] : [];
+
+// A line under the query with `^~~~` beneath each error, like a compiler diagnostic
+function errorMarkers(errors: readonly QuerySyntaxError[]): string {
+  const width = Math.max(...errors.map(error => error.end));
+  const markers = Array<string>(width).fill(' ');
+  errors.forEach(({ start, end }) => {
+    for (let i = start; i < Math.max(end, start + 1); i++) {
+      markers[i] = i === start ? '^' : '~';
+    }
+  });
+  return markers.join('').trimEnd();
 }
 
 export const SearchBox: React.FC = memo(() => {
   const {
+    appData,
     query,
     results,
     filters,
+    queryErrors,
+    sort,
+    matches,
+    facets,
+    searchPending,
+    advertisers,
     setSearchQuery,
     setFilters,
+    setSort,
     clearSearch,
-    setSelectedDomain
+    selectDomain,
+    hoverDomain,
+    zoomTo
   } = useAppStore();
 
   const [showFilters, setShowFilters] = useState(false);
-  const [localFilters, setLocalFilters] = useState<AdvancedFilters>(filters);
-  const [sortBy, setSortBy] = useState<SortOption>('domain');
-  const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+  const [localFilters, setLocalFilters] = useState<SearchFilters>(filters);
+  const [storedRecentSearches, setRecentSearches] = useLocalStorage(STORAGE_KEYS.LAST_SEARCH, NO_RECENT_SEARCHES);
+  const [suggestionsOpen, setSuggestionsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const inputRef = useRef<HTMLInputElement>(null);
 
   // Memoize handlers to prevent unnecessary re-renders
   const handleSearch = useCallback((value: string) => {
     setSearchQuery(value);
   }, [setSearchQuery]);
 
-  const handleFilterChange = useCallback((key: keyof AdvancedFilters, value: any) => {
+  const handleFilterChange = useCallback(<K extends keyof SearchFilters>(key: K, value: SearchFilters[K]) => {
     const newFilters = { ...localFilters, [key]: value };
     setLocalFilters(newFilters);
     setFilters(newFilters);
   }, [localFilters, setFilters]);
 
-  const handleSortChange = useCallback((newSortBy: SortOption) => {
-    if (sortBy === newSortBy) {
-      setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc');
-    } else {
-      setSortBy(newSortBy);
-      setSortDirection('asc');
-    }
-    handleFilterChange('sortBy', newSortBy);
-    handleFilterChange('sortDirection', sortDirection === 'asc' ? 'desc' : 'asc');
-  }, [sortBy, sortDirection, handleFilterChange]);
+  // Follow filter changes made outside this component, e.g. restored from the URL
+  useEffect(() => {
+    setLocalFilters(filters);
+  }, [filters]);
+
+  const handleDateRangeChange = useCallback((bound: 'start' | 'end', value: string) => {
+    const dateRange = { ...localFilters.dateRange, [bound]: value || undefined };
+    handleFilterChange('dateRange', dateRange.start || dateRange.end ? dateRange : undefined);
+  }, [localFilters.dateRange, handleFilterChange]);
+
+  const handleDomainLengthChange = useCallback((bound: 'min' | 'max', value: string) => {
+    const domainLength = { ...localFilters.domainLength, [bound]: value ? Number(value) : undefined };
+    handleFilterChange(
+      'domainLength',
+      domainLength.min !== undefined || domainLength.max !== undefined ? domainLength : undefined
+    );
+  }, [localFilters.domainLength, handleFilterChange]);
+
+  // Sort keys: the first decides the order, later ones break its ties
+  const toggleSortDirection = useCallback((field: SortField) => {
+    setSort(sort.map(key =>
+      key.field === field ? { field, direction: key.direction === 'asc' ? 'desc' : 'asc' } : key
+    ));
+  }, [sort, setSort]);
+
+  const changeSortField = useCallback((index: number, field: SortField) => {
+    const others = sort.filter((key, i) => i !== index && key.field !== field);
+    const next = [...others];
+    next.splice(Math.min(index, others.length), 0, { field, direction: sort[index]?.direction ?? 'asc' });
+    setSort(next.slice(0, SORT_CONSTANTS.MAX_KEYS));
+  }, [sort, setSort]);
+
+  const removeSortKey = useCallback((field: SortField) => {
+    setSort(sort.filter(key => key.field !== field));
+  }, [sort, setSort]);
 
   const clearFilters = useCallback(() => {
     const emptyFilters = {};
     setLocalFilters(emptyFilters);
     setFilters(emptyFilters);
-    setSortBy('domain');
-    setSortDirection('asc');
   }, [setFilters]);
 
-  const handleDomainSelect = useCallback((domain: string) => {
-    setSelectedDomain(domain);
-  }, [setSelectedDomain]);
+  // Older versions stored a single string under this key
+  const recentSearches = useMemo(
+    () => (Array.isArray(storedRecentSearches) ? storedRecentSearches : NO_RECENT_SEARCHES),
+    [storedRecentSearches]
+  );
+
+  // Searches count as used when submitted with Enter or when a result is picked
+  const rememberSearch = useCallback((value: string) => {
+    const trimmed = value.trim();
+    if (!trimmed) return;
+    setRecentSearches(
+      [trimmed, ...recentSearches.filter(recent => recent !== trimmed)].slice(0, SEARCH_CONSTANTS.MAX_RECENT_SEARCHES)
+    );
+  }, [recentSearches, setRecentSearches]);
+
+  // Autocomplete works on the word being typed; an empty box offers recent searches
+  const currentWord = query.match(/\S*$/)?.[0] ?? '';
+  const suggestions = useMemo((): SearchSuggestion[] => {
+    const typed = query.trim().toLowerCase();
+    const recent: SearchSuggestion[] = recentSearches
+      .filter(recentSearch => recentSearch.toLowerCase().startsWith(typed) && recentSearch.toLowerCase() !== typed)
+      .map(recentSearch => ({ kind: SEARCH_SUGGESTION_KIND.RECENT, value: recentSearch }));
+    if (!typed) return recent;
+
+    const fromData = appData && currentWord ? searchUtils.getSearchSuggestions(appData.areas, currentWord) : [];
+    return [...recent.slice(0, 2), ...fromData].slice(0, SEARCH_CONSTANTS.MAX_SUGGESTIONS);
+  }, [appData, query, currentWord, recentSearches]);
+
+  const listOpen = suggestionsOpen && suggestions.length > 0;
+  const { navigateUp, navigateDown, resetIndex, setIndex } = useListNavigation(suggestions, setActiveIndex);
+
+  // A new list starts with nothing active, so Enter still submits what was typed
+  useEffect(() => {
+    resetIndex();
+    setActiveIndex(-1);
+  }, [suggestions, resetIndex]);
+
+  useEffect(() => {
+    if (listOpen && activeIndex >= 0) {
+      document.getElementById(suggestionId(activeIndex))?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [listOpen, activeIndex]);
+
+  // Recent searches replace the query; other suggestions replace the word being typed.
+  // A field name keeps the list open for its values.
+  const applySuggestion = useCallback((suggestion: SearchSuggestion) => {
+    const isFieldName = suggestion.value.endsWith(':');
+    const nextQuery = suggestion.kind === SEARCH_SUGGESTION_KIND.RECENT
+      ? suggestion.value
+      : `${query.slice(0, query.length - currentWord.length)}${suggestion.value}${isFieldName ? '' : ' '}`;
+
+    setSearchQuery(nextQuery);
+    setSuggestionsOpen(isFieldName);
+    if (suggestion.kind === SEARCH_SUGGESTION_KIND.RECENT) rememberSearch(nextQuery);
+    inputRef.current?.focus();
+  }, [query, currentWord, setSearchQuery, rememberSearch]);
+
+  const handleInputKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        if (listOpen) {
+          navigateDown();
+        } else {
+          setSuggestionsOpen(true);
+        }
+        break;
+      case 'ArrowUp':
+        if (listOpen) {
+          e.preventDefault();
+          navigateUp();
+        }
+        break;
+      case 'Enter':
+        if (listOpen && activeIndex >= 0) {
+          e.preventDefault();
+          applySuggestion(suggestions[activeIndex]);
+        } else {
+          rememberSearch(query);
+          setSuggestionsOpen(false);
+        }
+        break;
+      case 'Escape':
+        if (listOpen) {
+          e.preventDefault();
+          setSuggestionsOpen(false);
+        }
+        break;
+      case 'Tab':
+        setSuggestionsOpen(false);
+        break;
+    }
+  }, [listOpen, activeIndex, suggestions, query, navigateDown, navigateUp, applySuggestion, rememberSearch]);
+
+  // Selecting an advertiser frames all of its blocks, not just the matching ones
+  const handleDomainSelect = useCallback(({ advertiser }: AdvertiserMatch) => {
+    selectDomain(advertiser.domain);
+    zoomTo(advertiser.bounds);
+    rememberSearch(query);
+  }, [selectDomain, zoomTo, rememberSearch, query]);
+
+  // Don't leave blocks highlighted on the map when the list goes away mid-hover
+  useEffect(() => () => hoverDomain(null), [hoverDomain]);
 
   const toggleFilters = useCallback(() => {
     setShowFilters(prev => !prev);
@@ -79,51 +243,18 @@ export const SearchBox: React.FC = memo(() => {
   const totalResults = useMemo(() => results.length || 2794, [results.length]);
   const activeFiltersCount = useMemo(() => {
     const filterKeys = Object.keys(filters).filter(key =>
-      !['sortBy', 'sortDirection'].includes(key) && filters[key as keyof SearchFilters] !== undefined
+      filters[key as keyof SearchFilters] !== undefined
     );
     return filterKeys.length;
   }, [filters]);
   const hasActiveFilters = useMemo(() => activeFiltersCount > 0, [activeFiltersCount]);
+  // Results stop at the search limit; the facets count every match
+  const matchCount = facets?.total ?? results.length;
 
-  // Memoize sorted and filtered results
-  const sortedResults = useMemo(() => {
-    if (!results.length) return results;
-    
-    const sorted = [...results].sort((a, b) => {
-      let aValue: any, bValue: any;
-      
-      switch (sortBy) {
-        case 'domain':
-          aValue = a.domain.toLowerCase();
-          bValue = b.domain.toLowerCase();
-          break;
-        case 'title':
-          aValue = (a.title || '').toLowerCase();
-          bValue = (b.title || '').toLowerCase();
-          break;
-        case 'registered_date':
-          aValue = a.analytics?.registered_at ? new Date(a.analytics.registered_at).getTime() : 0;
-          bValue = b.analytics?.registered_at ? new Date(b.analytics.registered_at).getTime() : 0;
-          break;
-        case 'http_status':
-          aValue = a.analytics?.http_status || 0;
-          bValue = b.analytics?.http_status || 0;
-          break;
-        case 'dns_status':
-          aValue = a.analytics?.dns_status || '';
-          bValue = b.analytics?.dns_status || '';
-          break;
-        default:
-          return 0;
-      }
-      
-      if (aValue < bValue) return sortDirection === 'asc' ? -1 : 1;
-      if (aValue > bValue) return sortDirection === 'asc' ? 1 : -1;
-      return 0;
-    });
-    
-    return sorted;
-  }, [results, sortBy, sortDirection]);
+  // One row per advertiser, in the order of its best-placed block
+  const groupedResults = useMemo(() => {
+    return advertisers ? advertiserUtils.groupByAdvertiser(results, advertisers) : [];
+  }, [results, advertisers]);
 
   return (
     <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6 h-full flex flex-col">
@@ -137,18 +268,42 @@ export const SearchBox: React.FC = memo(() => {
 
       {/* Search Input */}
       <div className="relative mb-3 sm:mb-4">
-        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+        {searchPending ? (
+          <Loader2 className="absolute left-3 top-1/2 -mt-2 text-blue-500 w-4 h-4 animate-spin" aria-hidden="true" />
+        ) : (
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+        )}
         <input
+          ref={inputRef}
           type="text"
           value={query}
-          onChange={(e) => handleSearch(e.target.value)}
-          placeholder="Search domains..."
-          className="w-full pl-10 pr-10 py-2 sm:py-3 text-sm sm:text-base text-black border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+          onChange={(e) => {
+            handleSearch(e.target.value);
+            setSuggestionsOpen(true);
+          }}
+          onFocus={() => setSuggestionsOpen(true)}
+          onBlur={() => setSuggestionsOpen(false)}
+          onKeyDown={handleInputKeyDown}
+          role="combobox"
+          aria-expanded={listOpen}
+          aria-controls={SUGGESTIONS_ID}
+          aria-autocomplete="list"
+          aria-activedescendant={listOpen && activeIndex >= 0 ? suggestionId(activeIndex) : undefined}
+          autoComplete="off"
+          placeholder="Search domains, e.g. casino http:>=400"
+          className={`w-full pl-10 pr-10 py-2 sm:py-3 text-sm sm:text-base text-black border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
+            queryErrors.length > 0 ? 'border-red-400' : 'border-gray-300'
+          }`}
           aria-label="Search domains"
-          aria-describedby="search-help"
+          aria-describedby={queryErrors.length > 0 ? 'search-help search-errors' : 'search-help'}
+          aria-invalid={queryErrors.length > 0}
+          spellCheck={false}
         />
         <p id="search-help" className="sr-only">
-          Enter domain name or keywords to search through the Million Dollar Homepage domains
+          Enter domain name or keywords to search through the Million Dollar Homepage domains.
+          Narrow the results with field filters such as dns:NXDOMAIN, http:&gt;=400, whois:available,
+          analytics:yes, kind:pending, len:&lt;=8, registered:&lt;2006, ns:*awsdns*, tld:com, size:&gt;100 or in:title;
+          numbers and dates also take ranges like len:5..10.
         </p>
         {query && (
           <button
@@ -160,72 +315,150 @@ export const SearchBox: React.FC = memo(() => {
             <X className="w-4 h-4" />
           </button>
         )}
+
+        {/* Suggestions */}
+        {listOpen && (
+          <ul
+            id={SUGGESTIONS_ID}
+            role="listbox"
+            aria-label="Search suggestions"
+            className="absolute left-0 right-0 top-full mt-1 z-30 max-h-64 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg py-1"
+          >
+            {suggestions.map((suggestion, index) => {
+              const isRecent = suggestion.kind === SEARCH_SUGGESTION_KIND.RECENT;
+              return (
+                <li
+                  key={`${suggestion.kind}-${suggestion.value}`}
+                  id={suggestionId(index)}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    applySuggestion(suggestion);
+                  }}
+                  onMouseEnter={() => {
+                    setIndex(index);
+                    setActiveIndex(index);
+                  }}
+                  className={`flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer ${
+                    index === activeIndex ? 'bg-blue-50 text-blue-900' : 'text-gray-700'
+                  }`}
+                >
+                  {isRecent && <Clock className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" />}
+                  <HighlightedText
+                    text={suggestion.value}
+                    ranges={prefixRanges(suggestion.value, isRecent ? query.trim() : currentWord)}
+                    className="font-mono truncate"
+                  />
+                  {suggestion.description && (
+                    <span className="text-xs text-gray-500 truncate">{suggestion.description}</span>
+                  )}
+                  <span className="ml-auto text-[10px] uppercase tracking-wide text-gray-400 flex-shrink-0">
+                    {SEARCH_SUGGESTION_LABELS[suggestion.kind]}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
       </div>
 
+      {/* Query Errors */}
+      {queryErrors.length > 0 && (
+        <div
+          id="search-errors"
+          className="-mt-1 mb-3 sm:mb-4 p-2 bg-red-50 border border-red-200 rounded-lg text-xs text-red-800"
+          role="alert"
+        >
+          <pre className="font-mono overflow-x-auto whitespace-pre" aria-hidden="true">
+            {query}
+            {'\n'}
+            {errorMarkers(queryErrors)}
+          </pre>
+          <ul className="mt-1 space-y-0.5">
+            {queryErrors.map(error => (
+              <li key={`${error.start}-${error.message}`} className="flex items-start gap-1">
+                <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" aria-hidden="true" />
+                <span>Column {error.start + 1}: {error.message}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Filter Toggle */}
       <div className="flex items-center justify-between mb-3 sm:mb-4">
-        <div className="flex items-center gap-2">
+        <button
+          onClick={toggleFilters}
+          className="flex items-center gap-2 text-xs sm:text-sm text-blue-600 hover:text-blue-800 transition-colors"
+          aria-expanded={showFilters}
+          aria-controls="filters-panel"
+          aria-label={`${showFilters ? 'Hide' : 'Show'} filters`}
+        >
+          <Filter className="w-4 h-4" />
+          <span className="hidden sm:inline">Filters</span>
+          <span className="sm:hidden">Filter</span>
+          {hasActiveFilters && (
+            <span className="bg-blue-100 text-blue-800 px-2 py-1 rounded-full text-xs" aria-label={`${activeFiltersCount} active filters`}>
+              {activeFiltersCount}
+            </span>
+          )}
+        </button>
+        {hasActiveFilters && (
           <button
-            onClick={toggleFilters}
-            className="flex items-center gap-2 text-xs sm:text-sm text-blue-600 hover:text-blue-800 transition-colors"
-            aria-expanded={showFilters}
-            aria-controls="filters-panel"
-            aria-label={`${showFilters ? 'Hide' : 'Show'} filters`}
+            onClick={clearFilters}
+            className="text-xs text-gray-500 hover:text-gray-700 transition-colors"
+            aria-label="Clear all filters"
           >
-            <Filter className="w-4 h-4" />
-            <span className="hidden sm:inline">Filters</span>
-            <span className="sm:hidden">Filter</span>
-            {hasActiveFilters && (
-              <span className="bg-blue-100 text-blue-800 px-2 py-1 rounded-full text-xs" aria-label={`${activeFiltersCount} active filters`}>
-                {activeFiltersCount}
-              </span>
-            )}
+            Clear
           </button>
-          
-          {/* Sort Options */}
-          <div className="flex items-center gap-1">
-            <button
-              onClick={() => handleSortChange('domain')}
-              className={`p-1 rounded transition-colors ${sortBy === 'domain' ? 'bg-blue-100 text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
-              title="Sort by domain"
-              aria-label="Sort by domain name"
-            >
-              <Globe className="w-3 h-3 sm:w-4 sm:h-4" />
-            </button>
-            <button
-              onClick={() => handleSortChange('http_status')}
-              className={`p-1 rounded transition-colors ${sortBy === 'http_status' ? 'bg-blue-100 text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
-              title="Sort by HTTP status"
-              aria-label="Sort by HTTP status"
+        )}
+      </div>
+
+      {/* Sort Keys */}
+      <div className="flex flex-wrap items-center gap-1 mb-3 sm:mb-4 text-xs" role="group" aria-label="Sort results">
+        <ArrowUpDown className="w-3 h-3 sm:w-4 sm:h-4 text-gray-400" aria-hidden="true" />
+        {sort.map((key, index) => (
+          <div key={key.field} className="flex items-center rounded border border-gray-300 bg-gray-50">
+            <select
+              value={key.field}
+              onChange={(e) => changeSortField(index, e.target.value as SortField)}
+              className="bg-transparent pl-1 py-0.5 text-xs text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+              aria-label={index === 0 ? 'Sort by' : `Then by (sort key ${index + 1})`}
             >
-              <Server className="w-3 h-3 sm:w-4 sm:h-4" />
-            </button>
+              {SORT_FIELDS.filter(field => field === key.field || !sort.some(other => other.field === field)).map(field => (
+                <option key={field} value={field}>{SORT_FIELD_LABELS[field]}</option>
+              ))}
+            </select>
             <button
-              onClick={() => handleSortChange('registered_date')}
-              className={`p-1 rounded transition-colors ${sortBy === 'registered_date' ? 'bg-blue-100 text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
-              title="Sort by registration date"
-              aria-label="Sort by registration date"
+              onClick={() => toggleSortDirection(key.field)}
+              className="p-1 text-gray-500 hover:text-gray-700 transition-colors"
+              title={`Sort ${key.direction === 'asc' ? 'descending' : 'ascending'}`}
+              aria-label={`Sort ${SORT_FIELD_LABELS[key.field]} ${key.direction === 'asc' ? 'descending' : 'ascending'}`}
             >
-              <Calendar className="w-3 h-3 sm:w-4 sm:h-4" />
+              {key.direction === 'asc' ? <SortAsc className="w-3 h-3" /> : <SortDesc className="w-3 h-3" />}
             </button>
             <button
-              onClick={() => setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc')}
-              className="p-1 rounded text-gray-400 hover:text-gray-600 transition-colors"
-              title={`Sort ${sortDirection === 'asc' ? 'descending' : 'ascending'}`}
-              aria-label={`Change sort direction to ${sortDirection === 'asc' ? 'descending' : 'ascending'}`}
+              onClick={() => removeSortKey(key.field)}
+              className="pr-1 text-gray-400 hover:text-gray-600 transition-colors"
+              aria-label={`Stop sorting by ${SORT_FIELD_LABELS[key.field]}`}
             >
-              {sortDirection === 'asc' ? <SortAsc className="w-3 h-3 sm:w-4 sm:h-4" /> : <SortDesc className="w-3 h-3 sm:w-4 sm:h-4" />}
+              <X className="w-3 h-3" />
             </button>
           </div>
-        </div>
-        {hasActiveFilters && (
-          <button
-            onClick={clearFilters}
-            className="text-xs text-gray-500 hover:text-gray-700 transition-colors"
-            aria-label="Clear all filters"
+        ))}
+        {sort.length < SORT_CONSTANTS.MAX_KEYS && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && changeSortField(sort.length, e.target.value as SortField)}
+            className="px-1 py-0.5 rounded border border-dashed border-gray-300 text-xs text-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Add a sort key"
           >
-            Clear
-          </button>
+            <option value="">{sort.length === 0 ? 'Best match' : 'Then by…'}</option>
+            {SORT_FIELDS.filter(field => !sort.some(key => key.field === field)).map(field => (
+              <option key={field} value={field}>{SORT_FIELD_LABELS[field]}</option>
+            ))}
+          </select>
         )}
       </div>
 
@@ -252,6 +485,8 @@ export const SearchBox: React.FC = memo(() => {
               <option value="NOERROR">NOERROR</option>
               <option value="NXDOMAIN">NXDOMAIN</option>
               <option value="SERVFAIL">SERVFAIL</option>
+              <option value="TIMEOUT">TIMEOUT</option>
+              <option value="ERROR">ERROR</option>
             </select>
           </div>
 
@@ -263,14 +498,15 @@ export const SearchBox: React.FC = memo(() => {
             <select
               id="http-status-filter"
               value={localFilters.httpStatus || ''}
-              onChange={(e) => handleFilterChange('httpStatus', e.target.value || undefined)}
+              onChange={(e) => handleFilterChange('httpStatus', (e.target.value as HTTPStatusClass) || undefined)}
               className="w-full px-2 sm:px-3 py-1 sm:py-2 border border-gray-300 rounded text-xs sm:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
               <option value="">All</option>
-              <option value="200">200 (OK)</option>
-              <option value="404">404 (Not Found)</option>
-              <option value="500">500 (Server Error)</option>
-              <option value="0">0 (No Response)</option>
+              {Object.values(HTTP_STATUS_CLASS).map(statusClass => (
+                <option key={statusClass} value={statusClass}>
+                  {analyticsUtils.getHttpStatusClassLabel(statusClass)}
+                </option>
+              ))}
             </select>
           </div>
 
@@ -282,7 +518,7 @@ export const SearchBox: React.FC = memo(() => {
             <select
               id="whois-status-filter"
               value={localFilters.whoisStatus || ''}
-              onChange={(e) => handleFilterChange('whoisStatus', e.target.value || undefined)}
+              onChange={(e) => handleFilterChange('whoisStatus', (e.target.value as WHOISStatus) || undefined)}
               className="w-full px-2 sm:px-3 py-1 sm:py-2 border border-gray-300 rounded text-xs sm:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
               <option value="">All</option>
@@ -292,6 +528,26 @@ export const SearchBox: React.FC = memo(() => {
             </select>
           </div>
 
+          {/* Area Kind Filter */}
+          <div>
+            <label htmlFor="area-kind-filter" className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">
+              Block Type
+            </label>
+            <select
+              id="area-kind-filter"
+              value={localFilters.areaKind || ''}
+              onChange={(e) => handleFilterChange('areaKind', (e.target.value as AreaKind) || undefined)}
+              className="w-full px-2 sm:px-3 py-1 sm:py-2 border border-gray-300 rounded text-xs sm:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">All</option>
+              {Object.values(AREA_KIND).map(kind => (
+                <option key={kind} value={kind}>
+                  {AREA_KIND_LABELS[kind]}
+                </option>
+              ))}
+            </select>
+          </div>
+
           {/* Analytics Availability */}
           <div>
             <label className="flex items-center gap-2 text-xs sm:text-sm">
@@ -309,14 +565,86 @@ export const SearchBox: React.FC = memo(() => {
               Show only domains that have analytics data available
             </p>
           </div>
+
+          {/* Registration Date Range */}
+          <fieldset>
+            <legend className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">
+              Registered
+            </legend>
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="date"
+                value={localFilters.dateRange?.start?.slice(0, 10) || ''}
+                onChange={(e) => handleDateRangeChange('start', e.target.value)}
+                className="w-full px-2 py-1 border border-gray-300 rounded text-xs sm:text-sm text-black focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                aria-label="Registered on or after"
+              />
+              <input
+                type="date"
+                value={localFilters.dateRange?.end?.slice(0, 10) || ''}
+                onChange={(e) => handleDateRangeChange('end', e.target.value)}
+                className="w-full px-2 py-1 border border-gray-300 rounded text-xs sm:text-sm text-black focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                aria-label="Registered on or before"
+              />
+            </div>
+          </fieldset>
+
+          {/* Domain Length */}
+          <fieldset>
+            <legend className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">
+              Domain Length
+            </legend>
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="number"
+                min={1}
+                placeholder="Min"
+                value={localFilters.domainLength?.min ?? ''}
+                onChange={(e) => handleDomainLengthChange('min', e.target.value)}
+                className="w-full px-2 py-1 border border-gray-300 rounded text-xs sm:text-sm text-black focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                aria-label="Minimum domain length"
+              />
+              <input
+                type="number"
+                min={1}
+                placeholder="Max"
+                value={localFilters.domainLength?.max ?? ''}
+                onChange={(e) => handleDomainLengthChange('max', e.target.value)}
+                className="w-full px-2 py-1 border border-gray-300 rounded text-xs sm:text-sm text-black focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                aria-label="Maximum domain length"
+              />
+            </div>
+          </fieldset>
+
+          {/* Nameservers Filter */}
+          <div>
+            <label htmlFor="nameservers-filter" className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">
+              Nameservers
+            </label>
+            <select
+              id="nameservers-filter"
+              value={localFilters.hasNameservers === undefined ? '' : String(localFilters.hasNameservers)}
+              onChange={(e) => handleFilterChange('hasNameservers', e.target.value ? e.target.value === 'true' : undefined)}
+              className="w-full px-2 sm:px-3 py-1 sm:py-2 border border-gray-300 rounded text-xs sm:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">All</option>
+              <option value="true">With nameservers</option>
+              <option value="false">Without nameservers</option>
+            </select>
+          </div>
         </div>
       )}
 
       {/* Results */}
       <div className="flex-1 overflow-hidden">
-        <div className="mb-2">
-          <span className="text-xs sm:text-sm text-gray-600">
-            {results.length} result{results.length !== 1 ? 's' : ''}
+        <div className="mb-2" aria-live="polite">
+          <span className={`text-xs sm:text-sm text-gray-600 transition-opacity ${searchPending ? 'opacity-50' : ''}`}>
+            {searchPending && <span className="sr-only">Searching… </span>}
+            {matchCount} result{matchCount !== 1 ? 's' : ''}
+            {matchCount > results.length && <> (first {results.length} shown)</>}
+            {groupedResults.length !== results.length && (
+              <> from {groupedResults.length} advertiser{groupedResults.length !== 1 ? 's' : ''}</>
+            )}
             {query && (
               <span className="block sm:inline">
                 <span className="hidden sm:inline"> for </span>
@@ -327,66 +655,97 @@ export const SearchBox: React.FC = memo(() => {
           </span>
         </div>
 
-        <div className="h-full overflow-y-auto space-y-1 sm:space-y-2" role="list" aria-label="Search results">
-          {sortedResults.map((area) => (
-            <div
-              key={`${area.id}-${area.domain}`}
-              onClick={() => handleDomainSelect(area.domain)}
-              className="p-2 sm:p-3 border border-gray-200 rounded-lg hover:bg-blue-50 hover:border-blue-300 cursor-pointer transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
-              role="listitem"
-              tabIndex={0}
-              onKeyDown={(e) => {
-                if (e.key === 'Enter' || e.key === ' ') {
-                  e.preventDefault();
-                  handleDomainSelect(area.domain);
-                }
-              }}
-              aria-label={`Select domain ${area.domain}${area.title ? `, ${area.title}` : ''}`}
-            >
-              <div className="font-medium text-gray-800 truncate text-sm sm:text-base" title={area.domain}>
-                {area.domain}
-              </div>
-              {area.title && (
-                <div className="text-xs sm:text-sm text-gray-600 truncate mt-1" title={area.title}>
-                  {area.title}
-                </div>
-              )}
-              <div className="flex flex-wrap items-center gap-1 sm:gap-2 mt-2 text-xs">
-                {area.analytics && (
-                  <>
-                    <span className={`px-1 sm:px-2 py-1 rounded text-xs ${
-                      area.analytics.dns_status === 'NOERROR'
-                        ? 'bg-green-100 text-green-800'
-                        : 'bg-red-100 text-red-800'
-                    }`}>
-                      <span className="hidden sm:inline">DNS: </span>{area.analytics.dns_status}
-                    </span>
-                    <span className={`px-1 sm:px-2 py-1 rounded text-xs ${
-                      area.analytics.http_status === 200
-                        ? 'bg-green-100 text-green-800'
-                        : 'bg-red-100 text-red-800'
-                    }`}>
-                      <span className="hidden sm:inline">HTTP: </span>{area.analytics.http_status}
-                    </span>
-                    <span className={`px-1 sm:px-2 py-1 rounded text-xs ${
-                      area.analytics.whois_status === 'registered'
-                        ? 'bg-blue-100 text-blue-800'
-                        : 'bg-gray-100 text-gray-800'
-                    }`}>
-                      {area.analytics.whois_status}
+        <div className="h-full overflow-y-auto space-y-1 sm:space-y-2" role="list" aria-label="Search results" aria-busy={searchPending}>
+          {groupedResults.map((match) => {
+            const { advertiser } = match;
+            const { analytics } = advertiser;
+            const [title, ...otherTitles] = advertiser.titles;
+            const blockCount = advertiser.areas.length;
+            // Domain ranges hold for every block; title ranges only for a block showing that title
+            const domainMatch = match.areas.map(area => matches[area.id]).find(Boolean);
+            const titleArea = match.areas.find(area => area.title === title && matches[area.id]);
+            const titleMatch = titleArea ? matches[titleArea.id] : undefined;
+
+            return (
+              <div
+                key={advertiser.domain}
+                onClick={() => handleDomainSelect(match)}
+                onMouseEnter={() => hoverDomain(advertiser.domain)}
+                onMouseLeave={() => hoverDomain(null)}
+                onFocus={() => hoverDomain(advertiser.domain)}
+                onBlur={() => hoverDomain(null)}
+                className="p-2 sm:p-3 border border-gray-200 rounded-lg hover:bg-blue-50 hover:border-blue-300 cursor-pointer transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                role="listitem"
+                tabIndex={0}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault();
+                    handleDomainSelect(match);
+                  }
+                }}
+                aria-label={`Select domain ${advertiser.domain}${title ? `, ${title}` : ''}${
+                  blockCount > 1 ? `, ${blockCount} blocks` : ''
+                }`}
+              >
+                <div className="flex items-baseline justify-between gap-2">
+                  <div className="font-medium text-gray-800 truncate text-sm sm:text-base" title={advertiser.domain}>
+                    <HighlightedText text={advertiser.domain} ranges={domainMatch?.domain} />
+                  </div>
+                  {blockCount > 1 && (
+                    <span
+                      className="flex-shrink-0 text-xs text-gray-500"
+                      title={`${advertiser.pixelCount.toLocaleString()} pixels in ${blockCount} blocks`}
+                    >
+                      {match.areas.length < blockCount && `${match.areas.length} of `}
+                      {blockCount} blocks
                     </span>
-                  </>
-                )}
-                {!area.hasAnalytics && (
-                  <span className="px-1 sm:px-2 py-1 rounded bg-gray-100 text-gray-600 text-xs">
-                    No analytics
-                  </span>
+                  )}
+                </div>
+                {title && (
+                  <div className="text-xs sm:text-sm text-gray-600 truncate mt-1" title={advertiser.titles.join('\n')}>
+                    <HighlightedText text={title} ranges={titleMatch?.title} />
+                    {otherTitles.length > 0 && (
+                      <span className="text-gray-400"> +{otherTitles.length} more</span>
+                    )}
+                  </div>
                 )}
+                <div className="flex flex-wrap items-center gap-1 sm:gap-2 mt-2 text-xs">
+                  {analytics && (
+                    <>
+                      <span className={`px-1 sm:px-2 py-1 rounded text-xs ${
+                        analytics.dns_status === 'NOERROR'
+                          ? 'bg-green-100 text-green-800'
+                          : 'bg-red-100 text-red-800'
+                      }`}>
+                        <span className="hidden sm:inline">DNS: </span>{analytics.dns_status}
+                      </span>
+                      <span className={`px-1 sm:px-2 py-1 rounded text-xs ${
+                        analyticsUtils.getHttpStatusClass(analytics.http_status) === HTTP_STATUS_CLASS.SUCCESS
+                          ? 'bg-green-100 text-green-800'
+                          : 'bg-red-100 text-red-800'
+                      }`}>
+                        <span className="hidden sm:inline">HTTP: </span>{analytics.http_status}
+                      </span>
+                      <span className={`px-1 sm:px-2 py-1 rounded text-xs ${
+                        analytics.whois_status === 'registered'
+                          ? 'bg-blue-100 text-blue-800'
+                          : 'bg-gray-100 text-gray-800'
+                      }`}>
+                        {analytics.whois_status}
+                      </span>
+                    </>
+                  )}
+                  {!analytics && (
+                    <span className="px-1 sm:px-2 py-1 rounded bg-gray-100 text-gray-600 text-xs">
+                      No analytics
+                    </span>
+                  )}
+                </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
 
-          {results.length === 0 && query && (
+          {results.length === 0 && query && !searchPending && (
             <div className="text-center py-6 sm:py-8 text-gray-500">
               <Search className="w-6 h-6 sm:w-8 sm:h-8 mx-auto mb-2 opacity-50" />
               <p className="text-sm sm:text-base">No domains found for "{query}"</p>
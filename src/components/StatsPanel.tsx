@@ -1,6 +1,10 @@
 import React, { useMemo, memo } from 'react';
-import { BarChart3, Globe, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
+import { BarChart3, Globe, CheckCircle, XCircle, AlertCircle, Bookmark } from 'lucide-react';
 import { useAppStore } from '../stores/appStore';
+import { analyticsUtils } from '../utils';
+import { DNS_STATUS, HTTP_STATUS_CLASS, WHOIS_STATUS } from '../constants';
+import { HTTPStatusClass } from '../types';
+import { computeFacets } from '../utils/searchEngine';
 
 interface StatCardProps {
   icon: React.ReactNode;
@@ -24,7 +28,7 @@ const StatCard: React.FC<StatCardProps> = memo(({ icon, title, value, total, col
             <p className="text-xs sm:text-sm text-gray-600 truncate">{title}</p>
             <p className="text-lg sm:text-xl font-semibold text-gray-900" aria-label={`${value.toLocaleString()} ${title.toLowerCase()}`}>
               {value.toLocaleString()}
-              {total && (
+              {total !== undefined && total > 0 && (
                 <span className="text-xs sm:text-sm text-gray-500 ml-1">
                   / {total.toLocaleString()}
                 </span>
@@ -32,7 +36,7 @@ const StatCard: React.FC<StatCardProps> = memo(({ icon, title, value, total, col
             </p>
           </div>
         </div>
-        {total && percentage && (
+        {total !== undefined && total > 0 && percentage && (
           <div className="text-right flex-shrink-0 ml-2">
             <div className="text-xs sm:text-sm font-medium text-gray-900" aria-label={`${percentage} percent`}>
               {percentage}%
@@ -58,30 +62,32 @@ const StatCard: React.FC<StatCardProps> = memo(({ icon, title, value, total, col
 StatCard.displayName = 'StatCard';
 
 export const StatsPanel: React.FC = memo(() => {
-  const { appData, results, query } = useAppStore();
+  const { appData, facets, overviewFacets, query, region, regionAreas, blockGrid } = useAppStore();
 
   if (!appData) return null;
 
   const { metadata } = appData;
-  const currentResults = results.length > 0 ? results : appData.areas;
+  // A region drawn on the map takes precedence over search results; searches are counted in the worker
+  const regionFacets = useMemo(() => (region ? computeFacets(regionAreas) : null), [region, regionAreas]);
+  const currentFacets = regionFacets ?? facets ?? overviewFacets;
 
-  // Memoize stats calculation for performance
+  // Pending, reserved and other placeholder blocks have no domain to analyse, so they stay out of the ratios
   const stats = useMemo(() => {
-    const withAnalytics = currentResults.filter(area => area.hasAnalytics);
-    const withoutAnalytics = currentResults.filter(area => !area.hasAnalytics);
-    const dnsSuccess = currentResults.filter(area => area.analytics?.dns_status === 'NOERROR');
-    const httpSuccess = currentResults.filter(area => area.analytics?.http_status === 200);
-    const registered = currentResults.filter(area => area.analytics?.whois_status === 'registered');
+    const total = currentFacets?.total ?? 0;
+    const domains = currentFacets?.domains ?? 0;
+    const withAnalytics = currentFacets?.withAnalytics ?? 0;
 
     return {
-      total: currentResults.length,
-      withAnalytics: withAnalytics.length,
-      withoutAnalytics: withoutAnalytics.length,
-      dnsSuccess: dnsSuccess.length,
-      httpSuccess: httpSuccess.length,
-      registered: registered.length
+      total,
+      domains,
+      nonDomain: total - domains,
+      withAnalytics,
+      withoutAnalytics: domains - withAnalytics,
+      dnsSuccess: currentFacets?.dnsStatus[DNS_STATUS.NO_ERROR] ?? 0,
+      httpSuccess: currentFacets?.httpStatus[HTTP_STATUS_CLASS.SUCCESS] ?? 0,
+      registered: currentFacets?.whoisStatus[WHOIS_STATUS.REGISTERED] ?? 0
     };
-  }, [currentResults]);
+  }, [currentFacets]);
 
   // Memoize formatted analysis date
   const analysisDate = useMemo(() => {
@@ -93,20 +99,39 @@ export const StatsPanel: React.FC = memo(() => {
   const dnsStatusEntries = useMemo(() => {
     if (!metadata.analyticsMetadata?.summary?.dns_status) return [];
     return Object.entries(metadata.analyticsMetadata.summary.dns_status)
+      .filter((entry): entry is [string, number] => entry[1] !== undefined)
       .sort(([,a], [,b]) => b - a)
       .slice(0, 3);
   }, [metadata.analyticsMetadata?.summary?.dns_status]);
 
+  // Memoize HTTP status class entries for display
+  const httpStatusEntries = useMemo(() => {
+    if (!metadata.analyticsMetadata?.summary?.http_status) return [];
+    return Object.entries(metadata.analyticsMetadata.summary.http_status)
+      .filter((entry): entry is [HTTPStatusClass, number] => entry[1] !== undefined)
+      .sort(([,a], [,b]) => b - a)
+      .slice(0, 3);
+  }, [metadata.analyticsMetadata?.summary?.http_status]);
+
   return (
     <div className="bg-gray-50 rounded-lg p-4 sm:p-6">
       <div className="flex items-center gap-2 mb-3 sm:mb-4">
         <BarChart3 className="w-4 h-4 sm:w-5 sm:h-5 text-gray-700" />
         <h2 className="text-base sm:text-lg font-semibold text-gray-800">
-          {query ? `Search Results Stats` : 'Overview'}
+          {region ? 'Selection Stats' : query ? `Search Results Stats` : 'Overview'}
         </h2>
       </div>
 
-      {query && (
+      {region && (
+        <div className="mb-3 sm:mb-4 p-2 sm:p-3 bg-amber-50 rounded-lg">
+          <p className="text-xs sm:text-sm text-amber-800">
+            Showing stats for the map selection
+            {' '}({stats.total} area{stats.total !== 1 ? 's' : ''})
+          </p>
+        </div>
+      )}
+
+      {!region && query && (
         <div className="mb-3 sm:mb-4 p-2 sm:p-3 bg-blue-50 rounded-lg">
           <p className="text-xs sm:text-sm text-blue-800">
             Showing stats for <span className="font-medium">"{query.length > 20 ? `${query.substring(0, 20)}...` : query}"</span>
@@ -120,16 +145,26 @@ export const StatsPanel: React.FC = memo(() => {
         <StatCard
           icon={<Globe className="w-5 h-5 text-blue-600" />}
           title="Total Domains"
-          value={stats.total}
+          value={stats.domains}
           color="bg-blue-100"
         />
 
+        {stats.nonDomain > 0 && (
+          <StatCard
+            icon={<Bookmark className="w-5 h-5 text-amber-600" />}
+            title="Placeholder Blocks"
+            value={stats.nonDomain}
+            total={stats.total}
+            color="bg-amber-100"
+          />
+        )}
+
         {/* Analytics Coverage */}
         <StatCard
           icon={<CheckCircle className="w-5 h-5 text-green-600" />}
           title="With Analytics"
           value={stats.withAnalytics}
-          total={stats.total}
+          total={stats.domains}
           color="bg-green-100"
         />
 
@@ -137,7 +172,7 @@ export const StatsPanel: React.FC = memo(() => {
           icon={<XCircle className="w-5 h-5 text-gray-600" />}
           title="Without Analytics"
           value={stats.withoutAnalytics}
-          total={stats.total}
+          total={stats.domains}
           color="bg-gray-100"
         />
 
@@ -158,7 +193,7 @@ export const StatsPanel: React.FC = memo(() => {
 
             <StatCard
               icon={<CheckCircle className="w-5 h-5 text-blue-600" />}
-              title="HTTP 200 OK"
+              title="HTTP Success (2xx)"
               value={stats.httpSuccess}
               total={stats.withAnalytics}
               color="bg-blue-100"
@@ -175,7 +210,7 @@ export const StatsPanel: React.FC = memo(() => {
         )}
 
         {/* Global Stats (when not searching) */}
-        {!query && (
+        {!query && !region && (
           <>
             <div className="pt-2 border-t border-gray-200">
               <h3 className="text-sm font-medium text-gray-700 mb-3">Global Summary</h3>
@@ -204,8 +239,43 @@ export const StatsPanel: React.FC = memo(() => {
               </div>
             </div>
 
+            {/* Block Grid Coverage */}
+            {blockGrid && (
+              <div className="bg-white rounded-lg p-3 sm:p-4 border border-gray-200">
+                <h4 className="text-xs sm:text-sm font-medium text-gray-700 mb-2 sm:mb-3">Block Grid Coverage</h4>
+                <div className="space-y-1 sm:space-y-2 text-xs sm:text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 truncate mr-2">Linked pixels:</span>
+                    <span className="font-medium flex-shrink-0">{blockGrid.stats.coveragePercent.toFixed(2)}%</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 truncate mr-2">Fully linked blocks:</span>
+                    <span className="font-medium flex-shrink-0">
+                      {blockGrid.stats.fullCells.toLocaleString()} / {blockGrid.stats.totalCells.toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 truncate mr-2">Partly linked blocks:</span>
+                    <span className="font-medium flex-shrink-0">{blockGrid.stats.partialCells.toLocaleString()}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 truncate mr-2">Unlinked blocks:</span>
+                    <span className="font-medium flex-shrink-0">{blockGrid.stats.emptyCells.toLocaleString()}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 truncate mr-2">Unlinked pixels:</span>
+                    <span className="font-medium flex-shrink-0">{blockGrid.stats.uncoveredPixels.toLocaleString()}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 truncate mr-2">Blocks shared by several areas:</span>
+                    <span className="font-medium flex-shrink-0">{blockGrid.stats.sharedCells.toLocaleString()}</span>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Top Status Counts */}
-            {dnsStatusEntries.length > 0 && (
+            {(dnsStatusEntries.length > 0 || httpStatusEntries.length > 0) && (
               <div className="bg-white rounded-lg p-3 sm:p-4 border border-gray-200">
                 <h4 className="text-xs sm:text-sm font-medium text-gray-700 mb-2 sm:mb-3">Status Distribution</h4>
                 <div className="space-y-1 sm:space-y-2 text-xs sm:text-sm">
@@ -215,6 +285,12 @@ export const StatsPanel: React.FC = memo(() => {
                       <span className="font-medium flex-shrink-0">{count.toLocaleString()}</span>
                     </div>
                   ))}
+                  {httpStatusEntries.map(([statusClass, count]) => (
+                    <div key={statusClass} className="flex justify-between">
+                      <span className="text-gray-600 truncate mr-2">HTTP {analyticsUtils.getHttpStatusClassLabel(statusClass)}:</span>
+                      <span className="font-medium flex-shrink-0">{count.toLocaleString()}</span>
+                    </div>
+                  ))}
                 </div>
               </div>
             )}
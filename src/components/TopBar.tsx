@@ -1,33 +1,28 @@
 import React, { useMemo, memo } from 'react';
 import { CircleQuestionMark } from 'lucide-react';
 import { useAppStore } from '../stores/appStore';
+import { DNS_STATUS, HTTP_STATUS_CLASS, WHOIS_STATUS } from '../constants';
 
 export const TopBar: React.FC = memo(() => {
-  const { appData } = useAppStore();
+  const { overviewFacets } = useAppStore();
 
   // Calculate statistics from the data
   const stats = useMemo(() => {
-    if (!appData) return null;
+    if (!overviewFacets) return null;
 
-    const areas = appData.areas;
-    const total = areas.length;
+    // Placeholder blocks (pending, reserved, ...) are not domains and stay out of every count
+    const total = overviewFacets.domains;
     
     // Count domains by registration status
-    const registered = areas.filter(area => 
-      area.analytics?.whois_status === 'registered'
-    ).length;
+    const registered = overviewFacets.whoisStatus[WHOIS_STATUS.REGISTERED] ?? 0;
     const available = total - registered;
     
     // Count DNS status
-    const dnsResolved = areas.filter(area => 
-      area.analytics?.dns_status === 'NOERROR'
-    ).length;
+    const dnsResolved = overviewFacets.dnsStatus[DNS_STATUS.NO_ERROR] ?? 0;
     const dnsErrors = total - dnsResolved;
     
     // Count HTTP status
-    const httpSuccess = areas.filter(area => 
-      area.analytics?.http_status === 200
-    ).length;
+    const httpSuccess = overviewFacets.httpStatus[HTTP_STATUS_CLASS.SUCCESS] ?? 0;
     const httpErrors = total - httpSuccess;
     
     // Calculate percentages
@@ -47,7 +42,7 @@ export const TopBar: React.FC = memo(() => {
       dnsResolvedPercent,
       httpSuccessPercent
     };
-  }, [appData]);
+  }, [overviewFacets]);
 
   if (!stats) return null;
 
@@ -13,6 +13,17 @@ export const IMAGE_CONSTANTS = {
   NATIVE_RESOLUTION: true,
 } as const;
 
+// Map zoom and pan behaviour
+export const VIEWPORT_CONSTANTS = {
+  WHEEL_ZOOM_SPEED: 0.002, // Zoom factor per wheel pixel, applied exponentially
+  BUTTON_ZOOM_FACTOR: 1.5,
+  FIT_PADDING: 40,
+  ZOOM_TO_AREA_SIZE: 160, // On-screen size a block is zoomed to, in CSS pixels
+  DRAG_THRESHOLD: 4,
+  ANIMATION_DURATION: 0.5,
+  LASSO_POINT_SPACING: 3, // Minimum distance between recorded lasso points, in CSS pixels
+} as const;
+
 // Tooltip configuration
 export const TOOLTIP_CONSTANTS = {
   OFFSET_X: 15,
@@ -26,10 +37,61 @@ export const SEARCH_CONSTANTS = {
   LIMIT: 1000,
   FUSE_THRESHOLD: 0.3,
   MIN_MATCH_CHAR_LENGTH: 2,
+  MAX_SUGGESTIONS: 8,
+  MAX_RECENT_SEARCHES: 5,
   DEBOUNCE_DELAY: 300,
   THROTTLE_DELAY: 100,
 } as const;
 
+// Field names of the search query language, e.g. `dns:NXDOMAIN http:>=400`
+export const QUERY_FIELDS = {
+  DNS: 'dns',
+  HTTP: 'http',
+  WHOIS: 'whois',
+  ANALYTICS: 'analytics',
+  KIND: 'kind',
+  LENGTH: 'len',
+  REGISTERED: 'registered',
+  NAMESERVER: 'ns',
+  TLD: 'tld',
+  SIZE: 'size',
+  IN: 'in',
+} as const;
+
+// What each query field filters on, shown next to field suggestions
+export const QUERY_FIELD_LABELS = {
+  dns: 'DNS status',
+  http: 'HTTP status code or class',
+  whois: 'WHOIS status',
+  analytics: 'Has analytics (yes/no)',
+  kind: 'Block type',
+  len: 'Domain length',
+  registered: 'Registration date',
+  ns: 'Nameservers (yes/no or pattern)',
+  tld: 'Public suffix',
+  size: 'Block size in pixels',
+  in: 'Also search titles (in:title)',
+} as const;
+
+// Search box suggestion kinds
+export const SEARCH_SUGGESTION_KIND = {
+  RECENT: 'recent',
+  DOMAIN: 'domain',
+  KEYWORD: 'keyword',
+  TLD: 'tld',
+  NAMESERVER: 'nameserver',
+  FIELD: 'field',
+} as const;
+
+export const SEARCH_SUGGESTION_LABELS = {
+  recent: 'Recent',
+  domain: 'Domain',
+  keyword: 'Keyword',
+  tld: 'TLD',
+  nameserver: 'Nameserver',
+  field: 'Filter',
+} as const;
+
 // Network and loading constants
 export const NETWORK_CONSTANTS = {
   TIMEOUT_MS: 30000,
@@ -55,6 +117,88 @@ export const COLORS = {
   TRANSPARENT: 'transparent',
   STROKE_SELECTED: '#3B82F6',
   STROKE_HIGHLIGHTED: '#10B981',
+  HOVER: 'rgba(191, 219, 254, 0.3)', // Light blue for the hovered block
+  REGION: 'rgba(245, 158, 11, 0.15)', // Amber for region selections
+  STROKE_REGION: '#F59E0B',
+  MINIMAP_VIEWPORT: '#EF4444', // Red frame for the visible part of the map
+  GRID_LINES: 'rgba(15, 23, 42, 0.35)',
+  UNLINKED: 'rgba(217, 70, 239, 0.55)', // Magenta for pixels no area links
+  OUT_OF_BOUNDS: '#DC2626', // Red outline for blocks clipped to the image
+} as const;
+
+// Map area renderers
+export const MAP_RENDERER = {
+  DOM: 'dom',
+  CANVAS: 'canvas',
+} as const;
+
+// Map pointer tools
+export const MAP_TOOL = {
+  PAN: 'pan',
+  RECTANGLE: 'rectangle',
+  LASSO: 'lasso',
+} as const;
+
+// Minimap overview
+export const MINIMAP_CONSTANTS = {
+  SIZE: 160, // CSS pixels per side
+  MARKER_RADIUS: 8, // In native image pixels
+  SELECTED_MARKER_RADIUS: 16,
+} as const;
+
+// Pixels were sold in 10×10 blocks: a 100×100 grid over the image
+export const BLOCK_GRID_CONSTANTS = {
+  CELL_SIZE: 10,
+  COLUMNS: 100,
+  ROWS: 100,
+} as const;
+
+// Optional map layers
+export const MAP_LAYER = {
+  GRID_LINES: 'grid_lines',
+  UNLINKED_PIXELS: 'unlinked_pixels',
+} as const;
+
+export const MAP_LAYER_LABELS = {
+  grid_lines: 'Block grid',
+  unlinked_pixels: 'Unlinked pixels',
+} as const;
+
+// Thematic map overlays
+export const MAP_OVERLAY = {
+  NONE: 'none',
+  DNS_STATUS: 'dns_status',
+  HTTP_STATUS: 'http_status',
+  WHOIS_STATUS: 'whois_status',
+  HEALTH_SCORE: 'health_score',
+  REGISTRATION_YEAR: 'registration_year',
+  EXPIRY: 'expiry',
+  NO_ANALYTICS: 'no_analytics',
+} as const;
+
+// Display labels for map overlays
+export const MAP_OVERLAY_LABELS = {
+  none: 'None',
+  dns_status: 'DNS status',
+  http_status: 'HTTP status',
+  whois_status: 'WHOIS status',
+  health_score: 'Health score',
+  registration_year: 'Registration year',
+  expiry: 'Time to expiry',
+  no_analytics: 'No analytics',
+} as const;
+
+// Overlay rendering configuration
+export const MAP_OVERLAY_CONSTANTS = {
+  FILL_OPACITY: 0.55,
+  YEAR_BUCKET_SIZE: 5, // Registration years per legend category
+} as const;
+
+// Canvas renderer configuration
+export const MAP_CANVAS_CONSTANTS = {
+  MAX_BACKING_SIZE: 4096, // Largest canvas edge in device pixels
+  STROKE_WIDTH: 2,
+  HOVER_OPACITY: 0.8,
 } as const;
 
 // HTTP status codes
@@ -68,6 +212,24 @@ export const HTTP_STATUS = {
   NO_RESPONSE: 0,
 } as const;
 
+// HTTP status classes, as used by the report's http_status_distribution
+export const HTTP_STATUS_CLASS = {
+  SUCCESS: 'success',
+  REDIRECT: 'redirect',
+  CLIENT_ERROR: 'client_error',
+  SERVER_ERROR: 'server_error',
+  UNREACHABLE: 'unreachable',
+} as const;
+
+// Display labels for HTTP status classes
+export const HTTP_STATUS_CLASS_LABELS = {
+  success: 'Success (2xx)',
+  redirect: 'Redirect (3xx)',
+  client_error: 'Client Error (4xx)',
+  server_error: 'Server Error (5xx)',
+  unreachable: 'Unreachable',
+} as const;
+
 // DNS status values
 export const DNS_STATUS = {
   NO_ERROR: 'NOERROR',
@@ -75,6 +237,7 @@ export const DNS_STATUS = {
   SERV_FAIL: 'SERVFAIL',
   TIMEOUT: 'TIMEOUT',
   REFUSED: 'REFUSED',
+  ERROR: 'ERROR',
 } as const;
 
 // WHOIS status values
@@ -85,6 +248,100 @@ export const WHOIS_STATUS = {
   ERROR: 'error',
 } as const;
 
+// Report matching strategies, in the order integrate tries them
+export const MATCH_STRATEGY = {
+  NORMALIZED: 'normalized',
+  REGISTRABLE: 'registrable',
+  REDIRECT: 'redirect',
+} as const;
+
+export const MATCH_STRATEGY_LABELS = {
+  normalized: 'Domain',
+  registrable: 'Registrable domain',
+  redirect: 'Redirect target',
+} as const;
+
+// Reasons an area has no analytics
+export const UNMATCHED_REASON = {
+  NO_DOMAIN: 'no_domain',
+  NOT_IN_REPORT: 'not_in_report',
+} as const;
+
+export const UNMATCHED_REASON_LABELS = {
+  no_domain: 'Link has no domain',
+  not_in_report: 'Not in the analysis report',
+} as const;
+
+// Area kinds, assigned by the data pipeline from each href
+export const AREA_KIND = {
+  DOMAIN: 'domain',
+  PENDING: 'pending',
+  RESERVED: 'reserved',
+  SUSPENDED: 'suspended',
+  INTERNAL: 'internal',
+  MALFORMED: 'malformed',
+} as const;
+
+export const AREA_KIND_LABELS = {
+  domain: 'Domain',
+  pending: 'Pending order',
+  reserved: 'Reserved',
+  suspended: 'Link suspended',
+  internal: 'Homepage link',
+  malformed: 'Malformed link',
+} as const;
+
+// Data-quality issue kinds, most severe first
+export const DATA_QUALITY_ISSUE = {
+  OUT_OF_BOUNDS: 'out_of_bounds',
+  ZERO_SIZE: 'zero_size',
+  DUPLICATE: 'duplicate',
+  OVERLAP: 'overlap',
+} as const;
+
+export const DATA_QUALITY_ISSUE_LABELS = {
+  out_of_bounds: 'Outside the image',
+  zero_size: 'Zero size',
+  duplicate: 'Duplicate block',
+  overlap: 'Overlapping blocks',
+} as const;
+
+// Search result sort fields
+export const SORT_FIELD = {
+  DOMAIN: 'domain',
+  TITLE: 'title',
+  REGISTERED: 'registered',
+  EXPIRY: 'expiry',
+  PIXEL_SIZE: 'pixel_size',
+  HEALTH_SCORE: 'health_score',
+  DNS_STATUS: 'dns_status',
+  HTTP_STATUS: 'http_status',
+  WHOIS_STATUS: 'whois_status',
+} as const;
+
+export const SORT_FIELD_LABELS = {
+  domain: 'Domain',
+  title: 'Title',
+  registered: 'Registration date',
+  expiry: 'Expiry date',
+  pixel_size: 'Pixel size',
+  health_score: 'Health score',
+  dns_status: 'DNS status',
+  http_status: 'HTTP status',
+  whois_status: 'WHOIS status',
+} as const;
+
+export const SORT_CONSTANTS = {
+  MAX_KEYS: 3,
+  DEFAULT: [{ field: 'domain', direction: 'asc' }],
+} as const;
+
+// Domain health score bands (see analyticsUtils.getDomainHealthScore)
+export const HEALTH_SCORE_THRESHOLDS = {
+  HEALTHY: 80,
+  WARNING: 50,
+} as const;
+
 // Theme constants
 export const THEME = {
   LIGHT: 'light',
@@ -98,6 +355,55 @@ export const STORAGE_KEYS = {
   LAST_SEARCH: 'mdh-last-search',
   USER_PREFERENCES: 'mdh-preferences',
   CACHE_TIMESTAMP: 'mdh-cache-timestamp',
+  DASHBOARD_PANEL: 'mdh-dashboard-panel',
+  MAP_RENDERER: 'mdh-map-renderer',
+  MAP_OVERLAY: 'mdh-map-overlay',
+  MAP_LAYERS: 'mdh-map-layers',
+} as const;
+
+// Dashboard side panel tabs
+export const DASHBOARD_TABS = {
+  SEARCH: 'search',
+  STATS: 'stats',
+  CHARTS: 'charts',
+  QUALITY: 'quality',
+  EXPORT: 'export',
+} as const;
+
+// Display labels for dashboard tabs
+export const DASHBOARD_TAB_LABELS = {
+  search: 'Search',
+  stats: 'Stats',
+  charts: 'Charts',
+  quality: 'Quality',
+  export: 'Export',
+} as const;
+
+// Header bar variants
+export const STATS_BAR_STYLE = {
+  CLASSIC: 'classic',
+  RETRO: 'retro',
+} as const;
+
+// Query string parameters for shareable app state
+export const URL_PARAMS = {
+  QUERY: 'q',
+  DNS_STATUS: 'dns',
+  HTTP_STATUS: 'http',
+  WHOIS_STATUS: 'whois',
+  HAS_ANALYTICS: 'analytics',
+  AREA_KIND: 'kind',
+  DOMAIN_LENGTH: 'len',
+  REGISTERED: 'reg',
+  HAS_NAMESERVERS: 'ns',
+  SEARCH_IN_TITLE: 'title',
+  HTTP_CODE: 'code',
+  TLD: 'tld',
+  NAMESERVER: 'nsname',
+  PIXEL_SIZE: 'size',
+  SELECTED: 'sel',
+  SELECTED_AREA: 'area',
+  VIEWPORT: 'view',
 } as const;
 
 // API endpoints
@@ -207,10 +513,15 @@ export const CONSTANTS = {
   ANIMATION: ANIMATION_CONSTANTS,
   COLORS,
   HTTP_STATUS,
+  HTTP_STATUS_CLASS,
   DNS_STATUS,
   WHOIS_STATUS,
   THEME,
+  VIEWPORT: VIEWPORT_CONSTANTS,
   STORAGE_KEYS,
+  DASHBOARD_TABS,
+  STATS_BAR_STYLE,
+  URL_PARAMS,
   API_ENDPOINTS,
   ERROR_MESSAGES,
   SUCCESS_MESSAGES,
@@ -231,10 +542,12 @@ export type NetworkConstants = typeof NETWORK_CONSTANTS;
 export type AnimationConstants = typeof ANIMATION_CONSTANTS;
 export type Colors = typeof COLORS;
 export type HTTPStatus = typeof HTTP_STATUS;
+export type HTTPStatusClasses = typeof HTTP_STATUS_CLASS;
 export type DNSStatus = typeof DNS_STATUS;
 export type WHOISStatus = typeof WHOIS_STATUS;
 export type Theme = typeof THEME;
 export type StorageKeys = typeof STORAGE_KEYS;
+export type DashboardTabs = typeof DASHBOARD_TABS;
 export type APIEndpoints = typeof API_ENDPOINTS;
 export type ErrorMessages = typeof ERROR_MESSAGES;
 export type SuccessMessages = typeof SUCCESS_MESSAGES;
@@ -440,4 +440,7 @@ export function usePerformanceMetrics() {
 }
 
 // Export all hooks
-export * from './useKeyboardNavigation';
\ No newline at end of file
+export * from './useKeyboardNavigation';
+export * from './useUrlStateSync';
+export * from './useZoomPan';
+export * from './useRegionSelect';
@@ -193,12 +193,18 @@ export const useListNavigation = (
     currentIndex.current = initialIndex;
   }, [initialIndex]);
 
+  // Move to an item without a key press, e.g. on pointer hover
+  const setIndex = useCallback((index: number) => {
+    currentIndex.current = index;
+  }, []);
+
   return {
     currentIndex: currentIndex.current,
     navigateUp,
     navigateDown,
     selectCurrent,
-    resetIndex
+    resetIndex,
+    setIndex
   };
 };
 
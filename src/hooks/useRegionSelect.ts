@@ -0,0 +1,164 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { useAppStore } from '../stores/appStore';
+import { MapPoint, MapRegion, MapSize, MapViewport } from '../types';
+import { VIEWPORT_CONSTANTS } from '../constants';
+import { coordinateUtils, viewportUtils } from '../utils';
+
+type RegionKind = MapRegion['kind'];
+
+const distance = (a: MapPoint, b: MapPoint): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+// A rectangle needs some area and a lasso needs at least a triangle
+const isUsableRegion = (region: MapRegion): boolean =>
+  region.kind === 'rectangle'
+    ? region.bounds.width > 0 && region.bounds.height > 0
+    : region.points.length >= 3;
+
+/**
+ * Rectangle and freeform lasso selection on the map. While a region is being
+ * drawn it is exposed as `draft`; on release the areas inside it are selected
+ * in the store. Escape cancels the drawing.
+ */
+export const useRegionSelect = (
+  containerRef: RefObject<HTMLElement>,
+  viewport: MapViewport | null,
+  size: MapSize | null
+) => {
+  const selectRegion = useAppStore(state => state.selectRegion);
+  const [draft, setDraft] = useState<MapRegion | null>(null);
+
+  // Window listeners need the latest values between renders
+  const viewportRef = useRef(viewport);
+  const sizeRef = useRef(size);
+  viewportRef.current = viewport;
+  sizeRef.current = size;
+
+  const kindRef = useRef<RegionKind | null>(null);
+  const pointerIdRef = useRef<number | null>(null);
+  const startRef = useRef<MapPoint | null>(null);
+  const lastPointRef = useRef<MapPoint | null>(null);
+  const pointsRef = useRef<MapPoint[]>([]);
+  const draftRef = useRef<MapRegion | null>(null);
+  const draggedRef = useRef(false);
+
+  const toContainerPoint = useCallback((clientX: number, clientY: number): MapPoint => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return { x: clientX - (rect?.left ?? 0), y: clientY - (rect?.top ?? 0) };
+  }, [containerRef]);
+
+  const toImagePoint = useCallback((point: MapPoint): MapPoint | null => {
+    const currentViewport = viewportRef.current;
+    const currentSize = sizeRef.current;
+    return currentViewport && currentSize ? viewportUtils.toImagePoint(currentViewport, currentSize, point) : null;
+  }, []);
+
+  const updateDraft = useCallback((next: MapRegion | null) => {
+    draftRef.current = next;
+    setDraft(next);
+  }, []);
+
+  const reset = useCallback(() => {
+    kindRef.current = null;
+    pointerIdRef.current = null;
+    startRef.current = null;
+    lastPointRef.current = null;
+    pointsRef.current = [];
+    updateDraft(null);
+  }, [updateDraft]);
+
+  useEffect(() => {
+    const handlePointerMove = (event: PointerEvent) => {
+      if (event.pointerId !== pointerIdRef.current || !kindRef.current || !startRef.current) return;
+
+      const point = toContainerPoint(event.clientX, event.clientY);
+      if (!draggedRef.current && distance(point, startRef.current) < VIEWPORT_CONSTANTS.DRAG_THRESHOLD) {
+        return;
+      }
+      draggedRef.current = true;
+
+      const imagePoint = toImagePoint(point);
+      if (!imagePoint) return;
+
+      if (kindRef.current === 'rectangle') {
+        const [origin] = pointsRef.current;
+        updateDraft({ kind: 'rectangle', bounds: coordinateUtils.rectangleFromPoints(origin, imagePoint) });
+        return;
+      }
+
+      // Thin out lasso points; pointer events can fire on every pixel
+      if (lastPointRef.current && distance(point, lastPointRef.current) < VIEWPORT_CONSTANTS.LASSO_POINT_SPACING) {
+        return;
+      }
+      lastPointRef.current = point;
+      pointsRef.current = [...pointsRef.current, imagePoint];
+      updateDraft({ kind: 'lasso', points: pointsRef.current });
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      if (event.pointerId !== pointerIdRef.current) return;
+
+      const region = draftRef.current;
+      if (region && isUsableRegion(region)) {
+        selectRegion(region);
+      }
+      reset();
+    };
+
+    const handlePointerCancel = (event: PointerEvent) => {
+      if (event.pointerId === pointerIdRef.current) {
+        draggedRef.current = false;
+        reset();
+      }
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // The release still ends in a click, so a started drag keeps swallowing it
+      if (event.key === 'Escape' && kindRef.current) {
+        reset();
+      }
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerCancel);
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerCancel);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [toContainerPoint, toImagePoint, selectRegion, reset, updateDraft]);
+
+  const beginSelection = useCallback((event: React.PointerEvent, kind: RegionKind) => {
+    if (event.pointerType === 'mouse' && event.button !== 0) return;
+    if (pointerIdRef.current !== null) return;
+
+    const point = toContainerPoint(event.clientX, event.clientY);
+    const imagePoint = toImagePoint(point);
+    if (!imagePoint) return;
+
+    kindRef.current = kind;
+    pointerIdRef.current = event.pointerId;
+    startRef.current = point;
+    lastPointRef.current = point;
+    pointsRef.current = [imagePoint];
+    draggedRef.current = false;
+  }, [toContainerPoint, toImagePoint]);
+
+  // Releasing a drawn region fires a click on whatever is under the pointer; swallow it
+  const onClickCapture = useCallback((event: React.MouseEvent) => {
+    if (draggedRef.current) {
+      event.stopPropagation();
+      event.preventDefault();
+      draggedRef.current = false;
+    }
+  }, []);
+
+  return {
+    draft,
+    beginSelection,
+    onClickCapture
+  };
+};
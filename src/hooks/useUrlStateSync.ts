@@ -0,0 +1,99 @@
+import { useEffect } from 'react';
+import { getSelectedDomain, useAppStore } from '../stores/appStore';
+import { SearchFilters } from '../types';
+import { SEARCH_CONSTANTS } from '../constants';
+import { UrlState, parseUrlState, serializeUrlState } from '../utils/urlState';
+import { parseSearchQuery, rewriteSearchQuery } from '../utils/queryLanguage';
+
+const hasFilters = (filters: SearchFilters): boolean =>
+  Object.values(filters).some(value => value !== undefined);
+
+// Push URL state into the store; filter parameters become query clauses,
+// and clauses typed into `q` win over parameters for the same filter
+const applyUrlState = (urlState: UrlState) => {
+  const store = useAppStore.getState();
+
+  if (!urlState.query.trim() && !hasFilters(urlState.filters)) {
+    store.clearSearch();
+  } else {
+    const filters = { ...urlState.filters, ...parseSearchQuery(urlState.query).filters };
+    store.setSearchQuery(rewriteSearchQuery(urlState.query, filters));
+  }
+
+  // A single block wins over a domain so links to one block of a multi-block domain survive
+  if (urlState.selectedAreaId !== null) {
+    store.selectArea(urlState.selectedAreaId);
+  } else {
+    store.selectDomain(urlState.selectedDomain);
+  }
+  store.setViewport(urlState.viewport);
+};
+
+const writeUrlState = () => {
+  const state = useAppStore.getState();
+  const { query, filters, selectedAreaIds, viewport } = state;
+  const selectedDomain = getSelectedDomain(state);
+  // Only whole domains and single blocks have a URL form
+  const selectedAreaId = !selectedDomain && selectedAreaIds.length === 1 ? selectedAreaIds[0] : null;
+
+  const { pathname, search, hash } = window.location;
+  // Filters have their own parameters, so `q` keeps only the free text
+  const freeText = rewriteSearchQuery(query, {});
+  const nextSearch = serializeUrlState({ query: freeText, filters, selectedDomain, selectedAreaId, viewport }, search);
+
+  if (nextSearch !== search) {
+    // replaceState keeps typing and panning from flooding the history
+    window.history.replaceState(window.history.state, '', `${pathname}${nextSearch}${hash}`);
+  }
+};
+
+/**
+ * Keep query, filters, selection and map viewport in sync with the URL.
+ * Restores state from the URL once data is available, then mirrors store
+ * changes back into it (debounced) so the address bar is always shareable.
+ */
+export const useUrlStateSync = (enabled: boolean) => {
+  useEffect(() => {
+    if (!enabled) return;
+
+    applyUrlState(parseUrlState(window.location.search));
+
+    let pendingWrite: number | undefined;
+
+    const flush = () => {
+      if (pendingWrite === undefined) return;
+      clearTimeout(pendingWrite);
+      pendingWrite = undefined;
+      writeUrlState();
+    };
+
+    const unsubscribe = useAppStore.subscribe((state, previous) => {
+      if (
+        state.query === previous.query &&
+        state.filters === previous.filters &&
+        state.selectedAreaIds === previous.selectedAreaIds &&
+        state.viewport === previous.viewport
+      ) {
+        return;
+      }
+
+      clearTimeout(pendingWrite);
+      pendingWrite = window.setTimeout(flush, SEARCH_CONSTANTS.DEBOUNCE_DELAY);
+    });
+
+    const handlePopState = () => {
+      applyUrlState(parseUrlState(window.location.search));
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    // Don't lose the last change when the page is reloaded or closed mid-debounce
+    window.addEventListener('pagehide', flush);
+
+    return () => {
+      unsubscribe();
+      flush();
+      window.removeEventListener('popstate', handlePopState);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, [enabled]);
+};
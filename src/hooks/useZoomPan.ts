@@ -0,0 +1,215 @@
+import { RefObject, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useAppStore } from '../stores/appStore';
+import { MapPoint, MapSize, MapViewport } from '../types';
+import { VIEWPORT_CONSTANTS } from '../constants';
+import { viewportUtils } from '../utils';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const LINE_HEIGHT_PX = 16;
+
+const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+/**
+ * Wheel/pinch zoom anchored at the pointer and drag-to-pan for the map.
+ * The viewport lives in the store; until the user moves the map (or a shared
+ * link sets it) the image is fitted to the container, never above 1:1.
+ */
+export const useZoomPan = (containerRef: RefObject<HTMLElement>) => {
+  const storedViewport = useAppStore(state => state.viewport);
+  const animate = useAppStore(state => state.animateViewport);
+  const setViewport = useAppStore(state => state.setViewport);
+
+  const [size, setSize] = useState<MapSize | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const viewport = useMemo<MapViewport | null>(
+    () => storedViewport ?? (size ? viewportUtils.fit(size, 1) : null),
+    [storedViewport, size]
+  );
+
+  // Native listeners and rapid pointer moves need the latest values between renders
+  const viewportRef = useRef(viewport);
+  const sizeRef = useRef(size);
+  viewportRef.current = viewport;
+  sizeRef.current = size;
+
+  const pointersRef = useRef(new Map<number, Point>());
+  const dragStartRef = useRef<Point | null>(null);
+  const draggedRef = useRef(false);
+
+  const commit = useCallback((next: MapViewport, options?: { animate?: boolean }) => {
+    viewportRef.current = next;
+    setViewport(next, options);
+  }, [setViewport]);
+
+  const toContainerPoint = useCallback((clientX: number, clientY: number): Point => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return { x: clientX - (rect?.left ?? 0), y: clientY - (rect?.top ?? 0) };
+  }, [containerRef]);
+
+  // Track the container size for fitting and for anchoring zoom
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [containerRef]);
+
+  // Wheel zoom needs a non-passive listener to stop browser page zoom on trackpad pinch
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      const current = viewportRef.current;
+      const currentSize = sizeRef.current;
+      if (!current || !currentSize) return;
+
+      event.preventDefault();
+      const delta = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * LINE_HEIGHT_PX : event.deltaY;
+      const factor = Math.exp(-delta * VIEWPORT_CONSTANTS.WHEEL_ZOOM_SPEED);
+      commit(viewportUtils.zoomAt(current, currentSize, toContainerPoint(event.clientX, event.clientY), current.scale * factor));
+    };
+
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [containerRef, commit, toContainerPoint]);
+
+  // One pointer pans, two pointers pinch-zoom around their midpoint
+  useEffect(() => {
+    const handlePointerMove = (event: PointerEvent) => {
+      const pointers = pointersRef.current;
+      const previous = pointers.get(event.pointerId);
+      const current = viewportRef.current;
+      const currentSize = sizeRef.current;
+      if (!previous || !current || !currentSize) return;
+
+      const point = toContainerPoint(event.clientX, event.clientY);
+
+      if (pointers.size === 1) {
+        if (!draggedRef.current && dragStartRef.current &&
+            distance(point, dragStartRef.current) < VIEWPORT_CONSTANTS.DRAG_THRESHOLD) {
+          return;
+        }
+        if (!draggedRef.current) {
+          draggedRef.current = true;
+          setIsDragging(true);
+        }
+        pointers.set(event.pointerId, point);
+        commit(viewportUtils.panBy(current, point.x - previous.x, point.y - previous.y));
+        return;
+      }
+
+      const other = Array.from(pointers.entries()).find(([id]) => id !== event.pointerId)?.[1];
+      pointers.set(event.pointerId, point);
+      if (!other) return;
+
+      draggedRef.current = true;
+      const previousDistance = distance(previous, other);
+      const previousMidpoint = midpoint(previous, other);
+      const nextMidpoint = midpoint(point, other);
+      const factor = previousDistance > 0 ? distance(point, other) / previousDistance : 1;
+
+      const zoomed = viewportUtils.zoomAt(current, currentSize, previousMidpoint, current.scale * factor);
+      commit(viewportUtils.panBy(zoomed, nextMidpoint.x - previousMidpoint.x, nextMidpoint.y - previousMidpoint.y));
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      const pointers = pointersRef.current;
+      if (!pointers.delete(event.pointerId)) return;
+
+      if (pointers.size === 0) {
+        dragStartRef.current = null;
+        setIsDragging(false);
+      }
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, [commit, toContainerPoint]);
+
+  const onPointerDown = useCallback((event: React.PointerEvent) => {
+    if (event.pointerType === 'mouse' && event.button !== 0) return;
+
+    const point = toContainerPoint(event.clientX, event.clientY);
+    if (pointersRef.current.size === 0) {
+      dragStartRef.current = point;
+      draggedRef.current = false;
+    }
+    pointersRef.current.set(event.pointerId, point);
+  }, [toContainerPoint]);
+
+  // A drag ends with a click on whatever is under the pointer; swallow it
+  const onClickCapture = useCallback((event: React.MouseEvent) => {
+    if (draggedRef.current) {
+      event.stopPropagation();
+      event.preventDefault();
+      draggedRef.current = false;
+    }
+  }, []);
+
+  const zoomBy = useCallback((factor: number) => {
+    const current = viewportRef.current;
+    const currentSize = sizeRef.current;
+    if (!current || !currentSize) return;
+
+    const center = { x: currentSize.width / 2, y: currentSize.height / 2 };
+    commit(viewportUtils.zoomAt(current, currentSize, center, current.scale * factor), { animate: true });
+  }, [commit]);
+
+  const zoomIn = useCallback(() => zoomBy(VIEWPORT_CONSTANTS.BUTTON_ZOOM_FACTOR), [zoomBy]);
+  const zoomOut = useCallback(() => zoomBy(1 / VIEWPORT_CONSTANTS.BUTTON_ZOOM_FACTOR), [zoomBy]);
+
+  const fitToScreen = useCallback(() => {
+    if (sizeRef.current) {
+      commit(viewportUtils.fit(sizeRef.current), { animate: true });
+    }
+  }, [commit]);
+
+  // Centre the view on an image pixel, keeping the zoom level
+  const panTo = useCallback((point: MapPoint) => {
+    const current = viewportRef.current;
+    if (current) {
+      commit(viewportUtils.clampCenter({ ...current, centerX: point.x, centerY: point.y }));
+    }
+  }, [commit]);
+
+  const resetScale = useCallback(() => {
+    const current = viewportRef.current;
+    if (current) {
+      commit({ ...current, scale: 1 }, { animate: true });
+    }
+  }, [commit]);
+
+  return {
+    viewport,
+    size,
+    animate,
+    isDragging,
+    onPointerDown,
+    onClickCapture,
+    zoomIn,
+    zoomOut,
+    fitToScreen,
+    resetScale,
+    panTo
+  };
+};
@@ -1,260 +1,307 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
-import Fuse from 'fuse.js';
-import { AppData, AreaData, SearchFilters, SearchState } from '../types';
+import {
+  Advertiser,
+  AppData,
+  AreaCoordinates,
+  AreaData,
+  MapRegion,
+  MapViewport,
+  SearchFacets,
+  SearchFilters,
+  SearchState,
+  SortKey
+} from '../types';
+import { SORT_CONSTANTS } from '../constants';
+import { advertiserUtils, analyticsUtils, coordinateUtils, viewportUtils } from '../utils';
+import { SpatialIndex, createSpatialIndex } from '../utils/spatialIndex';
+import { DataQualityReport, analyzeDataQuality } from '../utils/dataQuality';
+import { BlockGrid, buildBlockGrid } from '../utils/blockGrid';
+import { parseSearchQuery, rewriteSearchQuery } from '../utils/queryLanguage';
+import { computeFacets } from '../utils/searchEngine';
+import { SearchClient, createSearchClient } from '../utils/searchClient';
 
 interface AppStore extends SearchState {
   appData: AppData | null;
-  fuse: Fuse<AreaData> | null;
+  // Runs searches in a worker; replaced when new data is loaded
+  searchClient: SearchClient | null;
   
-  // Performance optimization: Cache for domain lookups
-  domainMap: Map<string, AreaData> | null;
+  // Lookups built once on load
+  areasById: Map<number, AreaData> | null;
+  advertisers: Map<string, Advertiser> | null;
+  // Blocks under the pointer on the map or in the results list
+  hoveredAreaIds: readonly number[];
+  // Areas by position on the image, for hit-testing and region queries
+  spatialIndex: SpatialIndex<AreaData> | null;
+  // Out-of-bounds, zero-size, duplicate and overlapping blocks in the loaded data
+  dataQuality: DataQualityReport | null;
+  // The 100×100 grid of 10×10 blocks and which areas cover each cell
+  blockGrid: BlockGrid | null;
+  // Facets of all loaded areas, for stats before any search has run
+  overviewFacets: SearchFacets | null;
+
+  // Map zoom/pan; null until the user moves the map or a link restores it
+  viewport: MapViewport | null;
+  // Whether the map should animate to the current viewport rather than jump
+  animateViewport: boolean;
+
+  // Region drawn on the map and the areas inside it; scopes stats, charts and export
+  region: MapRegion | null;
+  regionAreas: AreaData[];
   
   // Actions
   setAppData: (data: AppData) => void;
-  setSearchQuery: (query: string) => void;
-  setFilters: (filters: SearchFilters) => void;
-  setSelectedDomain: (domain: string | null) => void;
+  setSearchQuery: (query: string) => Promise<void>;
+  setFilters: (filters: SearchFilters) => Promise<void>;
+  setSort: (sort: readonly SortKey[]) => Promise<void>;
+  selectArea: (id: number | null) => void;
+  selectDomain: (domain: string | null) => void;
+  hoverDomain: (domain: string | null) => void;
+  setViewport: (viewport: MapViewport | null, options?: { animate?: boolean }) => void;
+  zoomTo: (bounds: AreaCoordinates) => void;
+  selectRegion: (region: MapRegion) => void;
+  clearRegion: () => void;
   clearSearch: () => void;
   highlightDomain: (domain: string) => void;
   clearHighlights: () => void;
 }
 
-// Constants for better performance
-const SEARCH_LIMIT = 1000;
-const FUSE_THRESHOLD = 0.3;
-const MIN_MATCH_CHAR_LENGTH = 2;
-
 export const useAppStore = create<AppStore>()(
   subscribeWithSelector((set, get) => ({
   // Initial state
   appData: null,
-  fuse: null,
-  domainMap: null,
+  searchClient: null,
+  areasById: null,
+  advertisers: null,
+  hoveredAreaIds: [],
+  spatialIndex: null,
+  dataQuality: null,
+  blockGrid: null,
+  overviewFacets: null,
+  viewport: null,
+  animateViewport: false,
+  region: null,
+  regionAreas: [],
   query: '',
   results: [],
   filters: {},
-  selectedDomain: null,
-  highlightedAreas: [],
+  queryErrors: [],
+  sort: SORT_CONSTANTS.DEFAULT,
+  matches: {},
+  facets: null,
+  searchPending: false,
+  selectedAreaIds: [],
+  highlightedAreaIds: [],
 
   // Actions
-  setAppData: (data: AppData) => {
-    // Create optimized domain lookup map
-    const domainMap = new Map<string, AreaData>();
-    data.areas.forEach(area => {
-      domainMap.set(area.domain, area);
-    });
+  setAppData: (loadedData: AppData) => {
+    // Older data files carry no report summary; recompute it from the areas
+    const { analyticsMetadata } = loadedData.metadata;
+    const data: AppData = analyticsMetadata.summary ? loadedData : {
+      ...loadedData,
+      metadata: {
+        ...loadedData.metadata,
+        analyticsMetadata: {
+          ...analyticsMetadata,
+          summary: analyticsUtils.summarizeAnalytics(loadedData.areas)
+        }
+      }
+    };
+
+    const areasById = new Map(data.areas.map(area => [area.id, area]));
+    const advertisers = advertiserUtils.buildAdvertisers(data.areas);
+
+    const spatialIndex = createSpatialIndex(
+      data.areas.map(area => ({ bounds: area.coordinates, item: area }))
+    );
+    const dataQuality = analyzeDataQuality(data.areas, spatialIndex);
+    const blockGrid = buildBlockGrid(data.areas);
+
+    const overviewFacets = computeFacets(data.areas);
+
+    get().searchClient?.dispose();
+    const searchClient = createSearchClient(data.areas);
 
-    // Create Fuse instance for fuzzy search with optimized configuration
-    const fuse = new Fuse(data.areas, {
-      keys: [
-        { name: 'domain', weight: 0.7 },
-        { name: 'title', weight: 0.3 }
-      ],
-      threshold: FUSE_THRESHOLD,
-      includeScore: true,
-      includeMatches: true,
-      minMatchCharLength: MIN_MATCH_CHAR_LENGTH,
-      shouldSort: true,
-      findAllMatches: false,
-      location: 0,
-      distance: 100,
-      // Performance optimization: limit search depth
-      ignoreLocation: true,
-      ignoreFieldNorm: false
+    set({
+      appData: data,
+      searchClient,
+      areasById,
+      advertisers,
+      spatialIndex,
+      dataQuality,
+      blockGrid,
+      overviewFacets,
+      facets: null,
+      searchPending: false
     });
-
-    set({ appData: data, fuse, domainMap });
   },
 
-  setSearchQuery: (query: string) => {
-    const state = get();
-    const { fuse, filters, appData } = state;
-    
-    if (!fuse || !appData) {
-      set({ query, results: [], highlightedAreas: [] });
+  // The query holds both free text and `field:value` clauses (see queryLanguage);
+  // clauses become the filters at once, and the worker matches the free text
+  setSearchQuery: async (query: string) => {
+    const { searchClient, sort } = get();
+    const { filters, text, errors } = parseSearchQuery(query);
+
+    if (!searchClient) {
+      set({ query, filters, queryErrors: errors, results: [], matches: {}, highlightedAreaIds: [] });
       return;
     }
 
-    let results: AreaData[] = [];
-    const trimmedQuery = query.trim();
-
-    if (trimmedQuery && trimmedQuery.length >= MIN_MATCH_CHAR_LENGTH) {
-      // Perform fuzzy search with optimized limit for performance
-      const searchResults = fuse.search(trimmedQuery, { limit: SEARCH_LIMIT });
-      results = searchResults.map(result => result.item);
-    } else if (trimmedQuery.length > 0 && trimmedQuery.length < MIN_MATCH_CHAR_LENGTH) {
-      // For very short queries, do exact prefix matching for better performance
-      results = appData.areas.filter(area =>
-        area.domain.toLowerCase().startsWith(trimmedQuery.toLowerCase()) ||
-        area.title.toLowerCase().startsWith(trimmedQuery.toLowerCase())
-      ).slice(0, SEARCH_LIMIT);
-    } else {
-      // No query, show all areas from appData (but limit for performance)
-      results = appData.areas.slice(0, SEARCH_LIMIT);
-    }
+    set({ query, filters, queryErrors: errors, searchPending: true });
 
-    // Apply filters
-    results = applyFilters(results, filters);
+    try {
+      const response = await searchClient.search({ text, filters, sort });
+      // Superseded by a newer search, which will settle the pending state
+      if (!response) return;
 
-    // Extract domains for highlighting with Set for better performance
-    const highlightedAreas = Array.from(new Set(results.map(area => area.domain)));
+      const { areasById } = get();
+      const results = response.areaIds
+        .map(id => areasById?.get(id))
+        .filter((area): area is AreaData => area !== undefined);
 
-    set({
-      query,
-      results,
-      highlightedAreas
-    });
+      set({
+        results,
+        matches: response.matches,
+        facets: response.facets,
+        searchPending: false,
+        highlightedAreaIds: results.map(area => area.id)
+      });
+    } catch (error) {
+      console.error('Search failed:', error);
+      set({ searchPending: false });
+    }
   },
 
+  // Filter controls rewrite the query's clauses so the search box shows them
   setFilters: (filters: SearchFilters) => {
-    const state = get();
-    const { query, fuse, appData } = state;
-    
-    if (!fuse || !appData) {
-      set({ filters });
-      return;
-    }
+    return get().setSearchQuery(rewriteSearchQuery(get().query, filters));
+  },
+
+  setSort: (sort: readonly SortKey[]) => {
+    set({ sort });
+    return get().setSearchQuery(get().query);
+  },
+
+  selectArea: (id: number | null) => {
+    const { areasById } = get();
+    set({ selectedAreaIds: id !== null && areasById?.has(id) ? [id] : [] });
+  },
+
+  // Domain-level operations select or hover every block the domain owns
+  selectDomain: (domain: string | null) => {
+    set({ selectedAreaIds: getDomainAreaIds(get(), domain) });
+  },
 
-    let results: AreaData[] = [];
-    const trimmedQuery = query.trim();
-
-    if (trimmedQuery && trimmedQuery.length >= MIN_MATCH_CHAR_LENGTH) {
-      const searchResults = fuse.search(trimmedQuery, { limit: SEARCH_LIMIT });
-      results = searchResults.map(result => result.item);
-    } else if (trimmedQuery.length > 0 && trimmedQuery.length < MIN_MATCH_CHAR_LENGTH) {
-      results = appData.areas.filter(area =>
-        area.domain.toLowerCase().startsWith(trimmedQuery.toLowerCase()) ||
-        area.title.toLowerCase().startsWith(trimmedQuery.toLowerCase())
-      ).slice(0, SEARCH_LIMIT);
-    } else {
-      results = appData.areas.slice(0, SEARCH_LIMIT);
+  hoverDomain: (domain: string | null) => {
+    const hoveredAreaIds = getDomainAreaIds(get(), domain);
+    if (hoveredAreaIds.length > 0 || get().hoveredAreaIds.length > 0) {
+      set({ hoveredAreaIds });
     }
+  },
 
-    // Apply new filters
-    results = applyFilters(results, filters);
+  setViewport: (viewport: MapViewport | null, options = {}) => {
+    set({ viewport, animateViewport: options.animate ?? false });
+  },
 
-    // Extract domains for highlighting with Set for better performance
-    const highlightedAreas = Array.from(new Set(results.map(area => area.domain)));
+  zoomTo: (bounds: AreaCoordinates) => {
+    set({ viewport: viewportUtils.forArea(bounds), animateViewport: true });
+  },
 
-    set({
-      filters,
-      results,
-      highlightedAreas
-    });
+  selectRegion: (region: MapRegion) => {
+    const { spatialIndex } = get();
+    if (!spatialIndex) return;
+
+    // Only blocks that fall entirely inside the region are selected
+    const regionAreas = spatialIndex
+      .rectQuery(coordinateUtils.getRegionBounds(region))
+      .filter(area => coordinateUtils.regionContains(region, area.coordinates));
+
+    set({ region, regionAreas });
   },
 
-  setSelectedDomain: (domain: string | null) => {
-    set({ selectedDomain: domain });
+  clearRegion: () => {
+    set({ region: null, regionAreas: [] });
   },
 
   clearSearch: () => {
+    get().searchClient?.cancel();
     set({ 
       query: '', 
       results: [], 
       filters: {}, 
-      selectedDomain: null,
-      highlightedAreas: []
+      queryErrors: [],
+      matches: {},
+      facets: null,
+      searchPending: false,
+      selectedAreaIds: [],
+      highlightedAreaIds: []
     });
   },
 
   highlightDomain: (domain: string) => {
-    const { highlightedAreas } = get();
-    if (!highlightedAreas.includes(domain)) {
-      set({ highlightedAreas: [...highlightedAreas, domain] });
+    const { highlightedAreaIds } = get();
+    const highlighted = new Set(highlightedAreaIds);
+    const added = getDomainAreaIds(get(), domain).filter(id => !highlighted.has(id));
+    if (added.length > 0) {
+      set({ highlightedAreaIds: [...highlightedAreaIds, ...added] });
     }
   },
 
   clearHighlights: () => {
-    set({ highlightedAreas: [] });
+    set({ highlightedAreaIds: [] });
   }
   })
 ));
 
-// Optimized helper function to apply filters with better performance
-function applyFilters(areas: AreaData[], filters: SearchFilters): AreaData[] {
-  // Early return if no filters are applied
-  const filterKeys = Object.keys(filters);
-  const hasFilters = filterKeys.length > 0 &&
-    Object.values(filters).some(value => value !== undefined && value !== null);
-  
-  if (!hasFilters) {
-    return areas;
-  }
-
-  // Pre-compile filter conditions for better performance
-  const filterConditions: Array<(area: AreaData) => boolean> = [];
-
-  // Basic filters
-  if (filters.dnsStatus !== undefined) {
-    filterConditions.push(area => area.analytics?.dns_status === filters.dnsStatus);
-  }
-
-  if (filters.httpStatus !== undefined) {
-    filterConditions.push(area => area.analytics?.http_status?.toString() === filters.httpStatus);
-  }
-
-  if (filters.whoisStatus !== undefined) {
-    filterConditions.push(area => area.analytics?.whois_status === filters.whoisStatus);
-  }
-
-  if (filters.hasAnalytics !== undefined) {
-    filterConditions.push(area => area.hasAnalytics === filters.hasAnalytics);
-  }
-
-  // Advanced filters (if they exist in the filters object)
-  const advancedFilters = filters as any;
-
-  // Domain length filter
-  if (advancedFilters.domainLength) {
-    const { min, max } = advancedFilters.domainLength;
-    if (min !== undefined || max !== undefined) {
-      filterConditions.push(area => {
-        const domainLength = area.domain.length;
-        return (min === undefined || domainLength >= min) &&
-               (max === undefined || domainLength <= max);
-      });
-    }
-  }
-
-  // Date range filter
-  if (advancedFilters.dateRange && (advancedFilters.dateRange.start || advancedFilters.dateRange.end)) {
-    const startDate = advancedFilters.dateRange.start ? new Date(advancedFilters.dateRange.start) : null;
-    const endDate = advancedFilters.dateRange.end ? new Date(advancedFilters.dateRange.end) : null;
-    
-    filterConditions.push(area => {
-      if (!area.analytics?.registered_at) return false;
-      const registrationDate = new Date(area.analytics.registered_at);
-      return (!startDate || registrationDate >= startDate) &&
-             (!endDate || registrationDate <= endDate);
-    });
-  }
-
-  // Nameservers filter
-  if (advancedFilters.hasNameservers !== undefined) {
-    filterConditions.push(area => {
-      const hasNameservers = Boolean(area.analytics?.nameservers && area.analytics.nameservers.length > 0);
-      return advancedFilters.hasNameservers ? hasNameservers : !hasNameservers;
-    });
-  }
+function getDomainAreaIds(state: AppStore, domain: string | null): number[] {
+  if (!domain) return [];
+  return state.advertisers?.get(domain)?.areas.map(area => area.id) ?? [];
+}
 
-  // Apply all filter conditions efficiently
-  return areas.filter(area => filterConditions.every(condition => condition(area)));
+/**
+ * The domain whose blocks make up the whole selection, or null when nothing
+ * or a mix of blocks is selected. A single block of a multi-block domain is
+ * not the domain.
+ */
+export function getSelectedDomain(state: AppStore): string | null {
+  const { selectedAreaIds, areasById, advertisers } = state;
+  if (selectedAreaIds.length === 0 || !areasById || !advertisers) return null;
+
+  const domain = areasById.get(selectedAreaIds[0])?.domain;
+  if (!domain) return null;
+
+  const advertiser = advertisers.get(domain);
+  const coversDomain = advertiser?.areas.length === selectedAreaIds.length &&
+    selectedAreaIds.every(id => areasById.get(id)?.domain === domain);
+  return coversDomain ? domain : null;
 }
 
 // Selector functions for better performance
 export const selectAppData = (state: AppStore) => state.appData;
 export const selectSearchResults = (state: AppStore) => state.results;
-export const selectHighlightedAreas = (state: AppStore) => state.highlightedAreas;
-export const selectSelectedDomain = (state: AppStore) => state.selectedDomain;
+export const selectHighlightedAreaIds = (state: AppStore) => state.highlightedAreaIds;
+export const selectSelectedAreaIds = (state: AppStore) => state.selectedAreaIds;
+export const selectSelectedDomain = getSelectedDomain;
 export const selectSearchQuery = (state: AppStore) => state.query;
 export const selectFilters = (state: AppStore) => state.filters;
+export const selectSort = (state: AppStore) => state.sort;
+export const selectMatches = (state: AppStore) => state.matches;
+export const selectFacets = (state: AppStore) => state.facets;
+export const selectSearchPending = (state: AppStore) => state.searchPending;
+export const selectViewport = (state: AppStore) => state.viewport;
+export const selectSpatialIndex = (state: AppStore) => state.spatialIndex;
+export const selectDataQuality = (state: AppStore) => state.dataQuality;
+export const selectBlockGrid = (state: AppStore) => state.blockGrid;
+export const selectAdvertisers = (state: AppStore) => state.advertisers;
+export const selectHoveredAreaIds = (state: AppStore) => state.hoveredAreaIds;
+export const selectRegion = (state: AppStore) => state.region;
+export const selectRegionAreas = (state: AppStore) => state.regionAreas;
 
 // Computed selectors
 export const selectSearchStats = (state: AppStore) => ({
   totalAreas: state.appData?.areas.length || 0,
   filteredResults: state.results.length,
-  highlightedCount: state.highlightedAreas.length,
+  highlightedCount: state.highlightedAreaIds.length,
   hasActiveSearch: state.query.trim().length > 0,
   hasActiveFilters: Object.keys(state.filters).length > 0
 });
\ No newline at end of file
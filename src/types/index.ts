@@ -1,14 +1,37 @@
 // Enhanced type definitions with better type safety and documentation
 
-/** DNS status types for better type safety */
-export type DNSStatus = 'NOERROR' | 'NXDOMAIN' | 'SERVFAIL' | 'TIMEOUT' | 'REFUSED';
+/** DNS status values the analyzer is known to report */
+export type KnownDNSStatus = 'NOERROR' | 'NXDOMAIN' | 'SERVFAIL' | 'TIMEOUT' | 'REFUSED' | 'ERROR';
 
-/** HTTP status codes commonly encountered */
-export type HTTPStatus = 200 | 301 | 302 | 404 | 500 | 503 | 0;
+/** DNS status: known values are typed, unknown resolver codes are still accepted */
+export type DNSStatus = KnownDNSStatus | (string & {});
+
+/** Raw HTTP status code; 0 means the request got no response */
+export type HTTPStatus = number;
+
+/** HTTP status classes, matching the report's http_status_distribution keys */
+export type HTTPStatusClass = 'success' | 'redirect' | 'client_error' | 'server_error' | 'unreachable';
 
 /** WHOIS status types */
 export type WHOISStatus = 'registered' | 'available' | 'unknown' | 'error';
 
+/** How an area was matched to a report entry; strategies are tried in this order */
+export type MatchStrategy = 'normalized' | 'registrable' | 'redirect';
+
+/** Why an area has no analytics */
+export type UnmatchedReason = 'no_domain' | 'not_in_report';
+
+/** What an area's href points at: a real domain or one of the homepage's placeholders */
+export type AreaKind = 'domain' | 'pending' | 'reserved' | 'suspended' | 'internal' | 'malformed';
+
+/** Coordinate problems found by the data-quality check */
+export type DataQualityIssueKind = 'out_of_bounds' | 'zero_size' | 'duplicate' | 'overlap';
+
+/** Outcome of matching an area against the analysis report */
+export type AnalyticsMatch =
+  | { readonly status: 'matched'; readonly strategy: MatchStrategy; readonly reportDomain: string }
+  | { readonly status: 'unmatched'; readonly reason: UnmatchedReason; readonly detail: string };
+
 /** Domain analytics data structure */
 export interface DomainAnalytics {
   readonly domain: string;
@@ -16,10 +39,11 @@ export interface DomainAnalytics {
   readonly http_status: HTTPStatus;
   readonly whois_status: WHOISStatus;
   readonly analyzed_at: string; // ISO 8601 date string
-  readonly registered_at: string; // ISO 8601 date string
-  readonly expiry_date: string; // ISO 8601 date string
-  readonly last_updated: string; // ISO 8601 date string
-  readonly nameservers: readonly string[];
+  // WHOIS does not return these for every domain, so the report may omit them
+  readonly registered_at?: string; // ISO 8601 date string
+  readonly expiry_date?: string; // ISO 8601 date string
+  readonly last_updated?: string; // ISO 8601 date string
+  readonly nameservers?: readonly string[];
 }
 
 /** Coordinate system for pixel areas */
@@ -36,10 +60,29 @@ export interface AreaData {
   readonly domain: string;
   readonly title: string;
   readonly href: string;
+  readonly kind: AreaKind;
   readonly coordinates: AreaCoordinates;
   readonly rawCoords: readonly number[];
   readonly analytics: DomainAnalytics | null;
   readonly hasAnalytics: boolean;
+  readonly analyticsMatch: AnalyticsMatch;
+}
+
+/** Everything bought under one domain: most advertisers own a single block, some own dozens */
+export interface Advertiser {
+  readonly domain: string;
+  readonly areas: readonly AreaData[];
+  readonly pixelCount: number;
+  readonly bounds: AreaCoordinates;
+  readonly titles: readonly string[];
+  // Analytics are per domain, so any block's copy will do
+  readonly analytics: DomainAnalytics | null;
+}
+
+/** Search hits for one advertiser; `areas` holds only the matching blocks */
+export interface AdvertiserMatch {
+  readonly advertiser: Advertiser;
+  readonly areas: readonly AreaData[];
 }
 
 /** Coordinate range boundaries */
@@ -50,15 +93,26 @@ export interface CoordinateRange {
   readonly maxY: number;
 }
 
+/** Status distributions, counted once per analyzed domain */
+export interface AnalyticsSummary {
+  readonly dns_status: Readonly<Partial<Record<DNSStatus, number>>>;
+  readonly http_status: Readonly<Partial<Record<HTTPStatusClass, number>>>;
+  readonly whois_status: Readonly<Partial<Record<WHOISStatus, number>>>;
+}
+
+/** Summary block as written by the analyzer report (data/report_*.json) */
+export interface AnalyticsReportSummary {
+  readonly dns_status_distribution?: Readonly<Record<string, number>>;
+  readonly http_status_distribution?: Readonly<Record<string, number>>;
+  readonly whois_status_distribution?: Readonly<Record<string, number>>;
+}
+
 /** Analytics metadata summary */
 export interface AnalyticsMetadata {
   readonly generated_at: string; // ISO 8601 date string
   readonly total_domains: number;
-  readonly summary: {
-    readonly dns_status: Readonly<Record<DNSStatus, number>>;
-    readonly http_status: Readonly<Record<string, number>>;
-    readonly whois_status: Readonly<Record<WHOISStatus, number>>;
-  };
+  readonly description?: string;
+  readonly summary?: AnalyticsSummary;
 }
 
 /** Application metadata */
@@ -80,9 +134,10 @@ export interface AppData {
 /** Advanced search filters with extended options */
 export interface SearchFilters {
   readonly dnsStatus?: DNSStatus;
-  readonly httpStatus?: string;
+  readonly httpStatus?: HTTPStatusClass;
   readonly whoisStatus?: WHOISStatus;
   readonly hasAnalytics?: boolean;
+  readonly areaKind?: AreaKind;
   // Advanced filters
   readonly domainLength?: {
     readonly min?: number;
@@ -94,15 +149,167 @@ export interface SearchFilters {
   };
   readonly hasNameservers?: boolean;
   readonly searchInTitle?: boolean;
+  // Query-language filters
+  readonly httpCode?: {
+    readonly min?: number;
+    readonly max?: number;
+  };
+  readonly tld?: string; // Public suffix, e.g. "com" or "co.uk"
+  readonly nameserver?: string; // Nameserver glob, `*` and `?` wildcards
+  readonly pixelSize?: {
+    readonly min?: number;
+    readonly max?: number;
+  };
 }
 
+/** A problem in the search box query; `start`/`end` are offsets into the query text */
+export interface QuerySyntaxError {
+  readonly message: string;
+  readonly start: number;
+  readonly end: number;
+}
+
+/** Map viewport: zoom level and the image pixel shown at the centre of the view */
+export interface MapViewport {
+  readonly scale: number;
+  readonly centerX: number;
+  readonly centerY: number;
+}
+
+/** Size of the on-screen map area in CSS pixels */
+export interface MapSize {
+  readonly width: number;
+  readonly height: number;
+}
+
+/** How map areas are drawn */
+export type MapRenderer = 'dom' | 'canvas';
+
+/** A point in native image coordinates */
+export interface MapPoint {
+  readonly x: number;
+  readonly y: number;
+}
+
+/** Analytics dimension the map colours every block by */
+export type MapOverlay =
+  | 'none'
+  | 'dns_status'
+  | 'http_status'
+  | 'whois_status'
+  | 'health_score'
+  | 'registration_year'
+  | 'expiry'
+  | 'no_analytics';
+
+/** Optional layers drawn over the map */
+export type MapLayer = 'grid_lines' | 'unlinked_pixels';
+
+/** What dragging on the map does */
+export type MapTool = 'pan' | 'rectangle' | 'lasso';
+
+/** A region drawn on the map, in native image coordinates */
+export type MapRegion =
+  | { readonly kind: 'rectangle'; readonly bounds: AreaCoordinates }
+  | { readonly kind: 'lasso'; readonly points: readonly MapPoint[] };
+
+/** Field the search results can be sorted by */
+export type SortField =
+  | 'domain'
+  | 'title'
+  | 'registered'
+  | 'expiry'
+  | 'pixel_size'
+  | 'health_score'
+  | 'dns_status'
+  | 'http_status'
+  | 'whois_status';
+
+export type SortDirection = 'asc' | 'desc';
+
+/** One level of a multi-key sort; later keys break ties in earlier ones */
+export interface SortKey {
+  readonly field: SortField;
+  readonly direction: SortDirection;
+}
+
+/**
+ * Counts over every block a search matched, not just the returned page.
+ * Status counts cover domain blocks with analytics.
+ */
+export interface SearchFacets {
+  readonly total: number;
+  readonly areaKind: Readonly<Partial<Record<AreaKind, number>>>;
+  readonly domains: number;
+  readonly withAnalytics: number;
+  readonly dnsStatus: Readonly<Record<string, number>>;
+  readonly httpStatus: Readonly<Partial<Record<HTTPStatusClass, number>>>;
+  readonly whoisStatus: Readonly<Record<string, number>>;
+}
+
+/** Where a search box suggestion comes from */
+export type SearchSuggestionKind = 'recent' | 'domain' | 'keyword' | 'tld' | 'nameserver' | 'field';
+
+/** An autocomplete entry; `value` replaces the word being typed, or the whole query for recent searches */
+export interface SearchSuggestion {
+  readonly kind: SearchSuggestionKind;
+  readonly value: string;
+  readonly description?: string;
+}
+
+/** Matched characters as an inclusive [start, end] index pair, as Fuse reports them */
+export type MatchRange = readonly [number, number];
+
+/** How a result matched the free text; `score` is Fuse's (0 is exact), null for prefix matches */
+export interface SearchMatch {
+  readonly score: number | null;
+  readonly domain: readonly MatchRange[];
+  readonly title: readonly MatchRange[];
+}
+
+/** A search as the search engine runs it; `text` is the query's free text */
+export interface SearchRequest {
+  readonly text: string;
+  readonly filters: SearchFilters;
+  readonly sort: readonly SortKey[];
+}
+
+/** Matching block ids in sort order, up to the search limit, and their facets */
+export interface SearchResponse {
+  readonly areaIds: readonly number[];
+  // By block id, for the returned blocks that matched free text
+  readonly matches: Readonly<Record<number, SearchMatch>>;
+  readonly facets: SearchFacets;
+}
+
+/** Messages to the search worker; a newer search or a cancel drops a search not yet run */
+export type SearchWorkerRequest =
+  | { readonly type: 'init'; readonly areas: readonly AreaData[] }
+  | { readonly type: 'search'; readonly id: number; readonly request: SearchRequest }
+  | { readonly type: 'cancel'; readonly id: number };
+
+/** Messages from the search worker; every search gets exactly one reply */
+export type SearchWorkerResponse =
+  | { readonly type: 'results'; readonly id: number; readonly response: SearchResponse }
+  | { readonly type: 'cancelled'; readonly id: number }
+  | { readonly type: 'error'; readonly id: number; readonly message: string };
+
 /** Search state management */
 export interface SearchState {
   readonly query: string;
   readonly results: readonly AreaData[];
   readonly filters: SearchFilters;
-  readonly selectedDomain: string | null;
-  readonly highlightedAreas: readonly string[];
+  readonly queryErrors: readonly QuerySyntaxError[];
+  readonly sort: readonly SortKey[];
+  // Text matches of the results by block id; empty without free text
+  readonly matches: Readonly<Record<number, SearchMatch>>;
+  // Facets of the latest search; null until a search has run
+  readonly facets: SearchFacets | null;
+  // A search has been sent and its results are not in yet
+  readonly searchPending: boolean;
+  // Selection and highlights are per block (AreaData.id); one domain can own many blocks
+  readonly selectedAreaIds: readonly number[];
+  readonly highlightedAreaIds: readonly number[];
 }
 
 /** Tooltip positioning and data */
@@ -110,6 +317,9 @@ export interface TooltipData {
   readonly domain: string;
   readonly title: string;
   readonly analytics: DomainAnalytics | null;
+  readonly analyticsMatch?: AnalyticsMatch;
+  readonly blockCount?: number;
+  readonly match?: SearchMatch;
   readonly position: { readonly x: number; readonly y: number };
   readonly visible: boolean;
 }
@@ -134,6 +344,19 @@ export interface LoadingState {
 /** Theme configuration */
 export type Theme = 'light' | 'dark' | 'system';
 
+/** Tabs of the dashboard side panel */
+export type DashboardTab = 'search' | 'stats' | 'charts' | 'quality' | 'export';
+
+/** Header bar variants */
+export type StatsBarStyle = 'classic' | 'retro';
+
+/** Dashboard side panel state, persisted across visits */
+export interface DashboardPanelState {
+  readonly isOpen: boolean;
+  readonly activeTab: DashboardTab;
+  readonly statsBarStyle: StatsBarStyle;
+}
+
 /** Component props type helpers */
 export interface BaseComponentProps {
   readonly className?: string;
@@ -2,6 +2,8 @@
  * Utility types for better type safety and developer experience
  */
 
+import type { ReactNode } from 'react';
+
 /** Make all properties of T readonly recursively */
 export type DeepReadonly<T> = {
   readonly [P in keyof T]: T[P] extends object ? DeepReadonly<T[P]> : T[P];
@@ -44,7 +46,7 @@ export type EventHandler<TEvent = Event> = (event: TEvent) => void;
 
 /** Create a type for React component props */
 export type ComponentProps<T = Record<string, unknown>> = T & {
-  readonly children?: React.ReactNode;
+  readonly children?: ReactNode;
   readonly className?: string;
   readonly 'data-testid'?: string;
 };
@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildBlockGrid } from './blockGrid';
+import { AreaCoordinates, AreaData } from '../types';
+
+const area = (id: number, coordinates: AreaCoordinates): AreaData => ({
+  id,
+  domain: `block${id}.com`,
+  title: '',
+  href: `http://block${id}.com`,
+  kind: 'domain',
+  coordinates,
+  rawCoords: [coordinates.x, coordinates.y, coordinates.x + coordinates.width, coordinates.y + coordinates.height],
+  analytics: null,
+  hasAnalytics: false,
+  analyticsMatch: { status: 'unmatched', reason: 'not_in_report', detail: '' }
+});
+
+describe('buildBlockGrid', () => {
+  // Everything is covered except an L in the top-left corner:
+  // 20×10 pixels at 0,0 and 10×10 at 0,10
+  const grid = buildBlockGrid([
+    area(1, { x: 20, y: 0, width: 980, height: 20 }),
+    area(2, { x: 10, y: 10, width: 10, height: 10 }),
+    area(3, { x: 0, y: 20, width: 1000, height: 980 })
+  ]);
+
+  it('merges uncovered runs downwards only while their extent stays the same', () => {
+    assert.deepEqual(grid.uncoveredRects, [
+      { x: 0, y: 0, width: 20, height: 10 },
+      { x: 0, y: 10, width: 10, height: 10 }
+    ]);
+  });
+
+  it('counts coverage per pixel and per cell', () => {
+    assert.deepEqual(grid.stats, {
+      totalCells: 10000,
+      fullCells: 9997,
+      partialCells: 0,
+      emptyCells: 3,
+      sharedCells: 0,
+      totalPixels: 1000000,
+      coveredPixels: 999700,
+      uncoveredPixels: 300,
+      coveragePercent: 99.97
+    });
+    assert.deepEqual(grid.uncoveredCells.map(({ column, row }) => [column, row]), [[0, 0], [1, 0], [0, 1]]);
+  });
+
+  it('finds the cell under a pixel', () => {
+    assert.deepEqual(grid.cellAt(15, 15)?.areaIds, [2]);
+    assert.deepEqual(grid.cellAt(999, 999)?.bounds, { x: 990, y: 990, width: 10, height: 10 });
+    assert.equal(grid.cellAt(-1, 0), null);
+    assert.equal(grid.cellAt(0, 1000), null);
+  });
+
+  it('counts areas cut off the grid and clips those outside the image', () => {
+    const offGrid = buildBlockGrid([
+      area(1, { x: 5, y: 0, width: 10, height: 10 }),
+      area(2, { x: 10, y: 0, width: 10, height: 5 }),
+      area(3, { x: -10, y: 0, width: 15, height: 10 })
+    ]);
+
+    const [first, second] = offGrid.cells;
+    assert.deepEqual(first.areaIds, [1, 3]);
+    assert.equal(first.coveredPixels, 100);
+    assert.deepEqual(second.areaIds, [1, 2]);
+    assert.equal(second.coveredPixels, 50 + 25);
+    assert.equal(offGrid.stats.sharedCells, 2);
+    assert.equal(offGrid.stats.partialCells, 1);
+    assert.equal(offGrid.stats.uncoveredPixels, 1000000 - 175);
+  });
+
+  it('describes every uncovered pixel exactly once', () => {
+    const scattered = buildBlockGrid([
+      area(1, { x: 0, y: 0, width: 500, height: 500 }),
+      area(2, { x: 250, y: 250, width: 500, height: 500 }),
+      area(3, { x: 900, y: 3, width: 7, height: 991 })
+    ]);
+
+    const pixels = new Set<number>();
+    scattered.uncoveredRects.forEach(({ x, y, width, height }) => {
+      for (let row = y; row < y + height; row++) {
+        for (let column = x; column < x + width; column++) {
+          const pixel = row * 1000 + column;
+          assert.ok(!pixels.has(pixel), `pixel ${column},${row} is in two rectangles`);
+          pixels.add(pixel);
+        }
+      }
+    });
+    assert.equal(pixels.size, scattered.stats.uncoveredPixels);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * The 10×10 block grid
+ *
+ * Pixels on the homepage were sold in 10×10 blocks, so the image is a grid of
+ * 100×100 cells. Each cell lists the areas covering part of it and how many of
+ * its 100 pixels any area covers. Most areas follow the grid, but a few were
+ * cut at odd offsets, so coverage is counted per pixel rather than per cell.
+ * Every area counts as a link here, placeholders included: its pixels are
+ * clickable on the original page.
+ */
+
+import { AreaCoordinates, AreaData } from '../types';
+import { BLOCK_GRID_CONSTANTS, IMAGE_CONSTANTS } from '../constants';
+
+const { CELL_SIZE, COLUMNS, ROWS } = BLOCK_GRID_CONSTANTS;
+const WIDTH = IMAGE_CONSTANTS.ORIGINAL_WIDTH;
+const HEIGHT = IMAGE_CONSTANTS.ORIGINAL_HEIGHT;
+const CELL_PIXELS = CELL_SIZE * CELL_SIZE;
+
+export interface GridCell {
+  readonly column: number;
+  readonly row: number;
+  readonly bounds: AreaCoordinates;
+  /** Ids of the areas covering any pixel of the cell */
+  readonly areaIds: readonly number[];
+  /** Pixels of the cell inside at least one area, 0-100 */
+  readonly coveredPixels: number;
+}
+
+export interface GridCoverageStats {
+  readonly totalCells: number;
+  readonly fullCells: number;
+  readonly partialCells: number;
+  readonly emptyCells: number;
+  /** Cells shared by more than one area */
+  readonly sharedCells: number;
+  readonly totalPixels: number;
+  readonly coveredPixels: number;
+  readonly uncoveredPixels: number;
+  readonly coveragePercent: number;
+}
+
+export interface BlockGrid {
+  /** Row-major, `row * COLUMNS + column` */
+  readonly cells: readonly GridCell[];
+  /** Cells with at least one pixel no area covers */
+  readonly uncoveredCells: readonly GridCell[];
+  /** The uncovered pixels as few non-overlapping rectangles, for drawing */
+  readonly uncoveredRects: readonly AreaCoordinates[];
+  readonly stats: GridCoverageStats;
+  /** Cell containing an image pixel, null outside the image */
+  cellAt: (x: number, y: number) => GridCell | null;
+}
+
+// Pixel rectangle of an area clipped to the image, null when nothing is left
+function clipToImage({ x, y, width, height }: AreaCoordinates): [number, number, number, number] | null {
+  const x0 = Math.max(0, Math.floor(x));
+  const y0 = Math.max(0, Math.floor(y));
+  const x1 = Math.min(WIDTH, Math.ceil(x + width));
+  const y1 = Math.min(HEIGHT, Math.ceil(y + height));
+  return x1 > x0 && y1 > y0 ? [x0, y0, x1, y1] : null;
+}
+
+// Runs of uncovered pixels per row, merged downwards while a run keeps its extent
+function findUncoveredRects(covered: Uint8Array): AreaCoordinates[] {
+  const rects: AreaCoordinates[] = [];
+  let open = new Map<string, { x: number; y: number; width: number; height: number }>();
+
+  for (let y = 0; y <= HEIGHT; y++) {
+    const next = new Map<string, { x: number; y: number; width: number; height: number }>();
+
+    for (let x = 0; y < HEIGHT && x < WIDTH;) {
+      if (covered[y * WIDTH + x]) {
+        x++;
+        continue;
+      }
+      const start = x;
+      while (x < WIDTH && !covered[y * WIDTH + x]) x++;
+
+      const key = `${start},${x}`;
+      const rect = open.get(key);
+      if (rect) {
+        rect.height++;
+        open.delete(key);
+        next.set(key, rect);
+      } else {
+        next.set(key, { x: start, y, width: x - start, height: 1 });
+      }
+    }
+
+    // Runs that did not continue into this row are finished
+    open.forEach(rect => rects.push(rect));
+    open = next;
+  }
+
+  return rects.sort((a, b) => a.y - b.y || a.x - b.x);
+}
+
+/**
+ * Map every grid cell to the areas covering it
+ */
+export function buildBlockGrid(areas: readonly AreaData[]): BlockGrid {
+  const covered = new Uint8Array(WIDTH * HEIGHT);
+  const cellAreaIds: number[][] = Array.from({ length: COLUMNS * ROWS }, () => []);
+
+  areas.forEach(area => {
+    const clipped = clipToImage(area.coordinates);
+    if (!clipped) return;
+    const [x0, y0, x1, y1] = clipped;
+
+    for (let y = y0; y < y1; y++) {
+      covered.fill(1, y * WIDTH + x0, y * WIDTH + x1);
+    }
+    for (let row = Math.floor(y0 / CELL_SIZE); row <= Math.floor((y1 - 1) / CELL_SIZE); row++) {
+      for (let column = Math.floor(x0 / CELL_SIZE); column <= Math.floor((x1 - 1) / CELL_SIZE); column++) {
+        cellAreaIds[row * COLUMNS + column].push(area.id);
+      }
+    }
+  });
+
+  const cells: GridCell[] = cellAreaIds.map((areaIds, index) => {
+    const column = index % COLUMNS;
+    const row = Math.floor(index / COLUMNS);
+    let coveredPixels = 0;
+    for (let y = row * CELL_SIZE; y < (row + 1) * CELL_SIZE; y++) {
+      for (let x = column * CELL_SIZE; x < (column + 1) * CELL_SIZE; x++) {
+        coveredPixels += covered[y * WIDTH + x];
+      }
+    }
+
+    return {
+      column,
+      row,
+      bounds: { x: column * CELL_SIZE, y: row * CELL_SIZE, width: CELL_SIZE, height: CELL_SIZE },
+      areaIds,
+      coveredPixels
+    };
+  });
+
+  const uncoveredCells = cells.filter(cell => cell.coveredPixels < CELL_PIXELS);
+  const coveredPixels = cells.reduce((sum, cell) => sum + cell.coveredPixels, 0);
+  const totalPixels = WIDTH * HEIGHT;
+  const emptyCells = uncoveredCells.filter(cell => cell.coveredPixels === 0).length;
+
+  return {
+    cells,
+    uncoveredCells,
+    uncoveredRects: findUncoveredRects(covered),
+    stats: {
+      totalCells: cells.length,
+      fullCells: cells.length - uncoveredCells.length,
+      partialCells: uncoveredCells.length - emptyCells,
+      emptyCells,
+      sharedCells: cells.filter(cell => cell.areaIds.length > 1).length,
+      totalPixels,
+      coveredPixels,
+      uncoveredPixels: totalPixels - coveredPixels,
+      coveragePercent: (coveredPixels / totalPixels) * 100
+    },
+    cellAt: (x: number, y: number) => {
+      if (x < 0 || y < 0 || x >= WIDTH || y >= HEIGHT) return null;
+      return cells[Math.floor(y / CELL_SIZE) * COLUMNS + Math.floor(x / CELL_SIZE)];
+    }
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeDataQuality, getDrawableBounds } from './dataQuality';
+import { AreaCoordinates, AreaData } from '../types';
+
+const area = (id: number, coordinates: AreaCoordinates): AreaData => ({
+  id,
+  domain: `block${id}.com`,
+  title: '',
+  href: `http://block${id}.com`,
+  kind: 'domain',
+  coordinates,
+  rawCoords: [coordinates.x, coordinates.y, coordinates.x + coordinates.width, coordinates.y + coordinates.height],
+  analytics: null,
+  hasAnalytics: false,
+  analyticsMatch: { status: 'unmatched', reason: 'not_in_report', detail: '' }
+});
+
+describe('getDrawableBounds', () => {
+  it('returns blocks inside the image unchanged', () => {
+    const bounds = { x: 990, y: 0, width: 10, height: 20 };
+    assert.equal(getDrawableBounds(bounds), bounds);
+  });
+
+  it('clips blocks that reach outside the image', () => {
+    assert.deepEqual(getDrawableBounds({ x: -5, y: 990, width: 20, height: 20 }), { x: 0, y: 990, width: 15, height: 10 });
+  });
+
+  it('has nothing to draw for blocks outside the image or without size', () => {
+    assert.equal(getDrawableBounds({ x: -10, y: 350, width: 10, height: 10 }), null);
+    assert.equal(getDrawableBounds({ x: 1000, y: 0, width: 10, height: 10 }), null);
+    assert.equal(getDrawableBounds({ x: 10, y: 10, width: 0, height: 10 }), null);
+  });
+});
+
+describe('analyzeDataQuality', () => {
+  it('reports each kind of issue once, in kind order', () => {
+    const { issues, counts } = analyzeDataQuality([
+      area(1, { x: 0, y: 0, width: 20, height: 20 }),
+      area(2, { x: 10, y: 10, width: 20, height: 20 }),
+      area(3, { x: 100, y: 100, width: 10, height: 10 }),
+      area(4, { x: 100, y: 100, width: 10, height: 10 }),
+      area(5, { x: -10, y: 350, width: 10, height: 10 }),
+      area(6, { x: 500, y: 500, width: 0, height: 10 })
+    ]);
+
+    assert.deepEqual(counts, { out_of_bounds: 1, zero_size: 1, duplicate: 1, overlap: 1 });
+    assert.deepEqual(issues.map(issue => [issue.kind, issue.areaIds]), [
+      ['out_of_bounds', [5]],
+      ['zero_size', [6]],
+      ['duplicate', [3, 4]],
+      ['overlap', [1, 2]]
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Data-quality checks on block coordinates
+ *
+ * Finds blocks that cannot be drawn as they are: outside the 1000×1000 image
+ * (the map draws only the part inside), without width or height, listed
+ * twice with the same rectangle, or overlapping another block. Used by the
+ * diagnostics panel and by the data pipeline's output.
+ */
+
+import { AreaCoordinates, AreaData, DataQualityIssueKind } from '../types';
+import { DATA_QUALITY_ISSUE, IMAGE_CONSTANTS } from '../constants';
+import { coordinateUtils } from './index';
+import { SpatialIndex, createSpatialIndex } from './spatialIndex';
+
+/** One problem; `areaIds` lists every block involved, in id order */
+export interface DataQualityIssue {
+  readonly kind: DataQualityIssueKind;
+  readonly areaIds: readonly number[];
+  readonly message: string;
+}
+
+export interface DataQualityReport {
+  readonly checkedAreas: number;
+  /** Issues ordered by kind (see DATA_QUALITY_ISSUE), then by first area id */
+  readonly issues: readonly DataQualityIssue[];
+  readonly counts: Readonly<Record<DataQualityIssueKind, number>>;
+}
+
+const KIND_ORDER: readonly DataQualityIssueKind[] = Object.values(DATA_QUALITY_ISSUE);
+
+const formatRect = ({ x, y, width, height }: AreaCoordinates): string => `${width}×${height} at ${x},${y}`;
+
+const describeArea = (area: AreaData): string => `#${area.id} ${area.domain}`;
+
+const rectKey = ({ x, y, width, height }: AreaCoordinates): string => `${x},${y},${width},${height}`;
+
+const hasSize = (bounds: AreaCoordinates): boolean =>
+  Number.isFinite(bounds.width) && Number.isFinite(bounds.height) && bounds.width > 0 && bounds.height > 0;
+
+const isInsideImage = (bounds: AreaCoordinates): boolean =>
+  coordinateUtils.isValidCoordinate(
+    bounds.x,
+    bounds.y,
+    bounds.width,
+    bounds.height,
+    IMAGE_CONSTANTS.ORIGINAL_WIDTH,
+    IMAGE_CONSTANTS.ORIGINAL_HEIGHT
+  );
+
+/**
+ * The part of a block the map can draw: the block itself when it lies inside
+ * the image, else its rectangle clipped to the image, or null when it has no
+ * pixels inside the image
+ */
+export function getDrawableBounds(bounds: AreaCoordinates): AreaCoordinates | null {
+  if (!hasSize(bounds)) return null;
+  if (isInsideImage(bounds)) return bounds;
+
+  const x = Math.max(0, bounds.x);
+  const y = Math.max(0, bounds.y);
+  const right = Math.min(IMAGE_CONSTANTS.ORIGINAL_WIDTH, bounds.x + bounds.width);
+  const bottom = Math.min(IMAGE_CONSTANTS.ORIGINAL_HEIGHT, bounds.y + bounds.height);
+  return right > x && bottom > y ? { x, y, width: right - x, height: bottom - y } : null;
+}
+
+/**
+ * Check every block. Pass the app's spatial index to reuse it; blocks with
+ * an identical rectangle are reported once as duplicates, not as overlaps.
+ */
+export function analyzeDataQuality(
+  areas: readonly AreaData[],
+  index: SpatialIndex<AreaData> = createSpatialIndex(areas.map(area => ({ bounds: area.coordinates, item: area })))
+): DataQualityReport {
+  const issues: DataQualityIssue[] = [];
+
+  areas.forEach(area => {
+    const bounds = area.coordinates;
+    if (!hasSize(bounds)) {
+      issues.push({
+        kind: DATA_QUALITY_ISSUE.ZERO_SIZE,
+        areaIds: [area.id],
+        message: `${describeArea(area)} is ${formatRect(bounds)}`
+      });
+    } else if (!isInsideImage(bounds)) {
+      issues.push({
+        kind: DATA_QUALITY_ISSUE.OUT_OF_BOUNDS,
+        areaIds: [area.id],
+        message: `${describeArea(area)} (${formatRect(bounds)}) extends past the ${IMAGE_CONSTANTS.ORIGINAL_WIDTH}×${IMAGE_CONSTANTS.ORIGINAL_HEIGHT} image`
+      });
+    }
+  });
+
+  const duplicates = new Map<string, AreaData[]>();
+  index.overlaps().forEach(([first, second]) => {
+    // Zero-size blocks are already reported and cover no pixels
+    if (!hasSize(first.coordinates) || !hasSize(second.coordinates)) return;
+
+    if (rectKey(first.coordinates) !== rectKey(second.coordinates)) {
+      issues.push({
+        kind: DATA_QUALITY_ISSUE.OVERLAP,
+        areaIds: [first.id, second.id].sort((a, b) => a - b),
+        message: `${describeArea(first)} (${formatRect(first.coordinates)}) overlaps ${describeArea(second)} (${formatRect(second.coordinates)})`
+      });
+      return;
+    }
+
+    const key = rectKey(first.coordinates);
+    const group = duplicates.get(key) ?? [];
+    [first, second].forEach(area => {
+      if (!group.includes(area)) group.push(area);
+    });
+    duplicates.set(key, group);
+  });
+
+  duplicates.forEach(group => {
+    const sorted = [...group].sort((a, b) => a.id - b.id);
+    issues.push({
+      kind: DATA_QUALITY_ISSUE.DUPLICATE,
+      areaIds: sorted.map(area => area.id),
+      message: `${sorted.map(describeArea).join(', ')} share the rectangle ${formatRect(sorted[0].coordinates)}`
+    });
+  });
+
+  issues.sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || a.areaIds[0] - b.areaIds[0]);
+
+  const counts = Object.fromEntries(KIND_ORDER.map(kind => [kind, 0])) as Record<DataQualityIssueKind, number>;
+  issues.forEach(issue => counts[issue.kind]++);
+
+  return { checkedAreas: areas.length, issues, counts };
+}
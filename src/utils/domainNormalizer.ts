@@ -0,0 +1,265 @@
+/**
+ * Domain normalisation shared by the data pipeline and the app
+ *
+ * Turns an href or a domain from the analysis report into one canonical
+ * hostname: lowercase ASCII with IDN labels in punycode, no leading dots and
+ * no leading `www` label. The registrable domain (eTLD+1) is looked up in the
+ * bundled public suffix rules, so `shop.example.co.uk` belongs to
+ * `example.co.uk`. Inputs that cannot be normalised come back as an issue
+ * saying why, e.g. the homepage's `http://Pending%20Order` placeholders.
+ */
+
+import { Result } from '../types/utils';
+import { PUBLIC_SUFFIX_RULES } from './publicSuffixList';
+
+export type DomainIssueReason =
+  | 'empty'
+  | 'unsupported_scheme'
+  | 'malformed_url'
+  | 'credentials'
+  | 'not_a_hostname'
+  | 'ip_address'
+  | 'invalid_label'
+  | 'no_registrable_domain';
+
+/** Why an href or domain could not be normalised */
+export interface DomainIssue {
+  readonly input: string;
+  readonly reason: DomainIssueReason;
+  readonly message: string;
+}
+
+export interface NormalizedDomain {
+  /** Lowercase ASCII hostname without a leading `www`; IDN labels stay in punycode */
+  readonly hostname: string;
+  /** The hostname with IDN labels decoded, for display */
+  readonly displayHostname: string;
+  /** The public suffix plus one label, e.g. `example.co.uk` */
+  readonly registrableDomain: string;
+  /** e.g. `com` or `co.uk` */
+  readonly publicSuffix: string;
+  /** False when no bundled rule matched and the last label was taken as the suffix */
+  readonly isKnownSuffix: boolean;
+}
+
+export type DomainNormalization = Result<NormalizedDomain, DomainIssue>;
+
+const MAX_HOSTNAME_LENGTH = 253;
+const MAX_LABEL_LENGTH = 63;
+const SUPPORTED_SCHEMES: readonly string[] = ['http', 'https'];
+
+const SCHEME_REGEX = /^([a-z][a-z\d+.-]*):/i;
+const LABEL_REGEX = /^[a-z\d]([a-z\d-]*[a-z\d])?$/;
+const HOSTNAME_CHAR_REGEX = /^[a-z\d.-]+$/;
+const ASCII_REGEX = /^[\x20-\x7e]*$/;
+const IDN_PREFIX = 'xn--';
+
+// Rules are indexed once: plain suffixes, parents of `*.` wildcards and `!` exceptions
+const SUFFIXES = new Set<string>();
+const WILDCARD_PARENTS = new Set<string>();
+const EXCEPTIONS = new Set<string>();
+
+PUBLIC_SUFFIX_RULES.forEach(rule => {
+  if (rule.startsWith('!')) {
+    EXCEPTIONS.add(rule.slice(1));
+  } else if (rule.startsWith('*.')) {
+    WILDCARD_PARENTS.add(rule.slice(2));
+  } else {
+    SUFFIXES.add(rule);
+  }
+});
+
+const issue = (input: string, reason: DomainIssueReason, message: string): DomainNormalization => ({
+  success: false,
+  error: { input, reason, message }
+});
+
+/**
+ * Format an issue as "input: message" for logs and reports
+ */
+export const formatDomainIssue = (domainIssue: DomainIssue): string =>
+  `${domainIssue.input}: ${domainIssue.message}`;
+
+// Punycode (RFC 3492) decoding; encoding is left to the URL parser's IDNA handling
+const PUNYCODE = { BASE: 36, T_MIN: 1, T_MAX: 26, SKEW: 38, DAMP: 700, INITIAL_BIAS: 72, INITIAL_N: 128 } as const;
+
+function adaptBias(delta: number, pointCount: number, firstTime: boolean): number {
+  let scaled = firstTime ? Math.floor(delta / PUNYCODE.DAMP) : Math.floor(delta / 2);
+  scaled += Math.floor(scaled / pointCount);
+
+  let k = 0;
+  while (scaled > ((PUNYCODE.BASE - PUNYCODE.T_MIN) * PUNYCODE.T_MAX) >> 1) {
+    scaled = Math.floor(scaled / (PUNYCODE.BASE - PUNYCODE.T_MIN));
+    k += PUNYCODE.BASE;
+  }
+  return k + Math.floor(((PUNYCODE.BASE - PUNYCODE.T_MIN + 1) * scaled) / (scaled + PUNYCODE.SKEW));
+}
+
+function decodeDigit(code: number): number {
+  if (code >= 48 && code <= 57) return code - 22; // 0-9 are 26-35
+  if (code >= 97 && code <= 122) return code - 97; // a-z are 0-25
+  return PUNYCODE.BASE;
+}
+
+/**
+ * Decode the part of a label after `xn--`; null when it is not valid punycode
+ */
+function decodePunycode(input: string): string | null {
+  const output: number[] = [];
+  const delimiter = input.lastIndexOf('-');
+  for (let j = 0; j < delimiter; j++) {
+    output.push(input.charCodeAt(j));
+  }
+
+  let n: number = PUNYCODE.INITIAL_N;
+  let bias: number = PUNYCODE.INITIAL_BIAS;
+  let i = 0;
+
+  for (let index = delimiter > 0 ? delimiter + 1 : 0; index < input.length;) {
+    const previous = i;
+    for (let weight = 1, k = PUNYCODE.BASE; ; k += PUNYCODE.BASE) {
+      if (index >= input.length) return null;
+      const digit = decodeDigit(input.charCodeAt(index++));
+      if (digit >= PUNYCODE.BASE) return null;
+
+      i += digit * weight;
+      const threshold = k <= bias ? PUNYCODE.T_MIN : k >= bias + PUNYCODE.T_MAX ? PUNYCODE.T_MAX : k - bias;
+      if (digit < threshold) break;
+      weight *= PUNYCODE.BASE - threshold;
+    }
+
+    bias = adaptBias(i - previous, output.length + 1, previous === 0);
+    n += Math.floor(i / (output.length + 1));
+    if (n > 0x10ffff) return null;
+    i %= output.length + 1;
+    output.splice(i++, 0, n);
+  }
+
+  return String.fromCodePoint(...output);
+}
+
+// IDNA mapping (case folding, normalisation, punycode) as browsers do it
+function toAsciiHostname(hostname: string): string | null {
+  try {
+    return new URL(`http://${hostname}`).hostname;
+  } catch {
+    return null;
+  }
+}
+
+const isIpAddress = (hostname: string): boolean =>
+  hostname.includes(':') || hostname.startsWith('[') || /^\d+$/.test(hostname.slice(hostname.lastIndexOf('.') + 1));
+
+function findPublicSuffix(labels: readonly string[]): { suffix: string; known: boolean } {
+  for (let start = 0; start < labels.length; start++) {
+    const candidate = labels.slice(start).join('.');
+    if (EXCEPTIONS.has(candidate)) {
+      return { suffix: labels.slice(start + 1).join('.'), known: true };
+    }
+    const parent = labels.slice(start + 1).join('.');
+    if (SUFFIXES.has(candidate) || (parent && WILDCARD_PARENTS.has(parent))) {
+      return { suffix: candidate, known: true };
+    }
+  }
+  // The list's default rule: the last label is the suffix
+  return { suffix: labels[labels.length - 1], known: false };
+}
+
+/**
+ * Public suffix of a hostname, e.g. `co.uk` for `example.co.uk`
+ */
+export const getPublicSuffix = (hostname: string): string =>
+  findPublicSuffix(hostname.toLowerCase().split('.')).suffix;
+
+/**
+ * Normalise a bare domain or hostname, e.g. a report entry like `.www.Example.com`
+ */
+export function normalizeDomain(input: string): DomainNormalization {
+  const trimmed = input.trim();
+  if (!trimmed) return issue(input, 'empty', 'is empty');
+
+  // Leading dots come from cookie-style report entries, a trailing dot from fully qualified names
+  const stripped = trimmed.replace(/^\.+/, '').replace(/\.+$/, '');
+  if (!stripped) return issue(input, 'not_a_hostname', 'has no labels');
+  if (isIpAddress(stripped)) return issue(input, 'ip_address', 'is an IP address, not a domain');
+
+  const ascii = ASCII_REGEX.test(stripped) ? stripped.toLowerCase() : toAsciiHostname(stripped);
+  if (ascii === null || !HOSTNAME_CHAR_REGEX.test(ascii)) {
+    return issue(input, 'not_a_hostname', `"${stripped}" is not a hostname`);
+  }
+  if (ascii.length > MAX_HOSTNAME_LENGTH) {
+    return issue(input, 'invalid_label', `is longer than ${MAX_HOSTNAME_LENGTH} characters`);
+  }
+
+  const labels = ascii.split('.');
+  for (const label of labels) {
+    if (!label) return issue(input, 'invalid_label', 'has an empty label');
+    if (label.length > MAX_LABEL_LENGTH) {
+      return issue(input, 'invalid_label', `label "${label}" is longer than ${MAX_LABEL_LENGTH} characters`);
+    }
+    if (!LABEL_REGEX.test(label)) {
+      return issue(input, 'invalid_label', `label "${label}" must start and end with a letter or digit`);
+    }
+    if (label.startsWith(IDN_PREFIX) && decodePunycode(label.slice(IDN_PREFIX.length)) === null) {
+      return issue(input, 'invalid_label', `label "${label}" is not valid punycode`);
+    }
+  }
+
+  const { suffix, known } = findPublicSuffix(labels);
+  const suffixLength = suffix.split('.').length;
+  if (labels.length <= suffixLength) {
+    const message = labels.length === 1 ? `"${ascii}" has no top-level domain` : `"${ascii}" is a public suffix`;
+    return issue(input, 'no_registrable_domain', message);
+  }
+
+  // `www` is only dropped as a subdomain; www.com stays as it is
+  const hostLabels = labels[0] === 'www' && labels.length - 1 > suffixLength ? labels.slice(1) : labels;
+  const hostname = hostLabels.join('.');
+
+  return {
+    success: true,
+    data: {
+      hostname,
+      displayHostname: hostLabels
+        .map(label => (label.startsWith(IDN_PREFIX) ? decodePunycode(label.slice(IDN_PREFIX.length)) ?? label : label))
+        .join('.'),
+      registrableDomain: labels.slice(-(suffixLength + 1)).join('.'),
+      publicSuffix: suffix,
+      isKnownSuffix: known
+    }
+  };
+}
+
+/**
+ * Normalise the host of an href. Percent-encoded hosts are decoded first, so
+ * `http://Pending%20Order` is reported as not being a hostname rather than
+ * as a malformed URL.
+ */
+export function normalizeHref(href: string): DomainNormalization {
+  const trimmed = href.trim();
+  if (!trimmed) return issue(href, 'empty', 'is empty');
+
+  const scheme = trimmed.match(SCHEME_REGEX)?.[1].toLowerCase();
+  if (scheme && !SUPPORTED_SCHEMES.includes(scheme)) {
+    return issue(href, 'unsupported_scheme', `${scheme}: links have no domain`);
+  }
+
+  const rest = scheme ? trimmed.slice(scheme.length + 1) : trimmed;
+  const authority = rest.replace(/^\/\//, '').split(/[/?#]/)[0];
+  if (authority.includes('@')) {
+    return issue(href, 'credentials', 'has credentials before the host');
+  }
+
+  let host: string;
+  try {
+    host = decodeURIComponent(authority);
+  } catch {
+    return issue(href, 'malformed_url', 'host has invalid percent-encoding');
+  }
+
+  // Drop the port, but leave IPv6 literals for normalizeDomain to reject
+  if (!host.startsWith('[')) host = host.replace(/:\d*$/, '');
+
+  const result = normalizeDomain(host);
+  return result.success ? result : { success: false, error: { ...result.error, input: href } };
+}
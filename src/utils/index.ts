@@ -2,25 +2,50 @@
  * Utility functions for the Million Dollar Homepage Analytics application
  */
 
-import { AreaData, DomainAnalytics } from '../types';
-import { VALIDATION_RULES, DNS_STATUS, HTTP_STATUS, WHOIS_STATUS } from '../constants';
+import {
+  Advertiser,
+  AdvertiserMatch,
+  AnalyticsReportSummary,
+  AnalyticsSummary,
+  AreaData,
+  DomainAnalytics,
+  AreaCoordinates,
+  HTTPStatus,
+  HTTPStatusClass,
+  MapPoint,
+  MapRegion,
+  MapSize,
+  MapViewport,
+  SearchSuggestion
+} from '../types';
+import {
+  IMAGE_CONSTANTS,
+  VALIDATION_RULES,
+  VIEWPORT_CONSTANTS,
+  DNS_STATUS,
+  HTTP_STATUS_CLASS,
+  HTTP_STATUS_CLASS_LABELS,
+  HEALTH_SCORE_THRESHOLDS,
+  WHOIS_STATUS,
+  AREA_KIND,
+  AREA_KIND_LABELS,
+  QUERY_FIELDS,
+  QUERY_FIELD_LABELS,
+  SEARCH_CONSTANTS,
+  SEARCH_SUGGESTION_KIND
+} from '../constants';
+import { normalizeDomain, normalizeHref } from './domainNormalizer';
 
 // Domain and URL utilities
 export const domainUtils = {
   /**
-   * Parse domain from href with better error handling
+   * Parse domain from href; hrefs without a usable host are returned as they are
    */
   parseDomain: (href: string): string => {
     if (!href || typeof href !== 'string') return '';
-    
-    try {
-      const url = new URL(href);
-      return url.hostname.replace(/^www\./, '');
-    } catch {
-      // If URL parsing fails, try to extract domain from href
-      const match = href.match(/\/\/(?:www\.)?([^/]+)/);
-      return match ? match[1] : href;
-    }
+
+    const normalized = normalizeHref(href);
+    return normalized.success ? normalized.data.hostname : href;
   },
 
   /**
@@ -40,21 +65,30 @@ export const domainUtils = {
   },
 
   /**
-   * Extract top-level domain
+   * Extract the public suffix, e.g. `co.uk` rather than `uk` for example.co.uk
    */
   getTLD: (domain: string): string => {
     if (!domain) return '';
-    const parts = domain.split('.');
-    return parts.length > 1 ? parts[parts.length - 1] : '';
+    const normalized = normalizeDomain(domain);
+    return normalized.success ? normalized.data.publicSuffix : '';
   },
 
   /**
-   * Check if domain is likely a subdomain
+   * Registrable domain (eTLD+1), e.g. example.co.uk for shop.example.co.uk
+   */
+  getRegistrableDomain: (domain: string): string | null => {
+    if (!domain) return null;
+    const normalized = normalizeDomain(domain);
+    return normalized.success ? normalized.data.registrableDomain : null;
+  },
+
+  /**
+   * Check if domain is a subdomain of its registrable domain
    */
   isSubdomain: (domain: string): boolean => {
     if (!domain) return false;
-    const parts = domain.split('.');
-    return parts.length > 2;
+    const normalized = normalizeDomain(domain);
+    return normalized.success && normalized.data.hostname !== normalized.data.registrableDomain;
   }
 };
 
@@ -118,6 +152,197 @@ export const coordinateUtils = {
       x: rect.x + rect.width / 2,
       y: rect.y + rect.height / 2
     };
+  },
+
+  /**
+   * Build a rectangle from two opposite corners
+   */
+  rectangleFromPoints: (a: MapPoint, b: MapPoint): AreaCoordinates => ({
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y)
+  }),
+
+  /**
+   * Check if `inner` lies entirely within `outer`
+   */
+  rectangleContains: (outer: AreaCoordinates, inner: AreaCoordinates): boolean => {
+    return inner.x >= outer.x &&
+           inner.y >= outer.y &&
+           inner.x + inner.width <= outer.x + outer.width &&
+           inner.y + inner.height <= outer.y + outer.height;
+  },
+
+  /**
+   * Check if a point lies inside a polygon (even-odd rule)
+   */
+  pointInPolygon: (point: MapPoint, polygon: readonly MapPoint[]): boolean => {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = polygon[i];
+      const b = polygon[j];
+      if ((a.y > point.y) !== (b.y > point.y) &&
+          point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  },
+
+  /**
+   * Check if a rectangle lies inside a polygon: every corner is inside and no
+   * polygon vertex pokes into the rectangle
+   */
+  rectangleInPolygon: (rect: AreaCoordinates, polygon: readonly MapPoint[]): boolean => {
+    const corners = [
+      { x: rect.x, y: rect.y },
+      { x: rect.x + rect.width, y: rect.y },
+      { x: rect.x + rect.width, y: rect.y + rect.height },
+      { x: rect.x, y: rect.y + rect.height }
+    ];
+    if (!corners.every(corner => coordinateUtils.pointInPolygon(corner, polygon))) return false;
+
+    return !polygon.some(point =>
+      point.x > rect.x && point.x < rect.x + rect.width &&
+      point.y > rect.y && point.y < rect.y + rect.height
+    );
+  },
+
+  /**
+   * Bounding rectangle of a set of points
+   */
+  getPolygonBounds: (points: readonly MapPoint[]): AreaCoordinates => {
+    if (points.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+    const xs = points.map(point => point.x);
+    const ys = points.map(point => point.y);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+  },
+
+  /**
+   * Bounding rectangle of a map region
+   */
+  getRegionBounds: (region: MapRegion): AreaCoordinates => {
+    return region.kind === 'rectangle' ? region.bounds : coordinateUtils.getPolygonBounds(region.points);
+  },
+
+  /**
+   * Check if a rectangle lies entirely within a map region
+   */
+  regionContains: (region: MapRegion, rect: AreaCoordinates): boolean => {
+    return region.kind === 'rectangle'
+      ? coordinateUtils.rectangleContains(region.bounds, rect)
+      : coordinateUtils.rectangleInPolygon(rect, region.points);
+  }
+};
+
+// Map viewport utilities; points are in CSS pixels relative to the map container
+export const viewportUtils = {
+  /**
+   * Clamp a zoom level to the supported range
+   */
+  clampScale: (scale: number): number => {
+    return Math.min(Math.max(scale, IMAGE_CONSTANTS.MIN_SCALE), IMAGE_CONSTANTS.MAX_SCALE);
+  },
+
+  /**
+   * Keep the view centre on the image so it cannot be panned out of sight
+   */
+  clampCenter: (viewport: MapViewport): MapViewport => ({
+    scale: viewport.scale,
+    centerX: Math.min(Math.max(viewport.centerX, 0), IMAGE_CONSTANTS.ORIGINAL_WIDTH),
+    centerY: Math.min(Math.max(viewport.centerY, 0), IMAGE_CONSTANTS.ORIGINAL_HEIGHT)
+  }),
+
+  /**
+   * Position of the image's top-left corner inside the container
+   */
+  getOffset: (viewport: MapViewport, size: MapSize): { x: number; y: number } => ({
+    x: size.width / 2 - viewport.centerX * viewport.scale,
+    y: size.height / 2 - viewport.centerY * viewport.scale
+  }),
+
+  /**
+   * Convert a point in the map container to native image coordinates
+   */
+  toImagePoint: (viewport: MapViewport, size: MapSize, point: { x: number; y: number }): MapPoint => {
+    const offset = viewportUtils.getOffset(viewport, size);
+    return {
+      x: (point.x - offset.x) / viewport.scale,
+      y: (point.y - offset.y) / viewport.scale
+    };
+  },
+
+  /**
+   * The part of the image visible in the container, in native image coordinates
+   */
+  getVisibleBounds: (viewport: MapViewport, size: MapSize): AreaCoordinates => ({
+    x: viewport.centerX - size.width / 2 / viewport.scale,
+    y: viewport.centerY - size.height / 2 / viewport.scale,
+    width: size.width / viewport.scale,
+    height: size.height / viewport.scale
+  }),
+
+  /**
+   * Zoom to a new scale while keeping the image pixel under `point` in place
+   */
+  zoomAt: (viewport: MapViewport, size: MapSize, point: { x: number; y: number }, scale: number): MapViewport => {
+    const nextScale = viewportUtils.clampScale(scale);
+    const offset = viewportUtils.getOffset(viewport, size);
+    const anchorX = (point.x - offset.x) / viewport.scale;
+    const anchorY = (point.y - offset.y) / viewport.scale;
+
+    return viewportUtils.clampCenter({
+      scale: nextScale,
+      centerX: anchorX + (size.width / 2 - point.x) / nextScale,
+      centerY: anchorY + (size.height / 2 - point.y) / nextScale
+    });
+  },
+
+  /**
+   * Move the view by a screen-space distance
+   */
+  panBy: (viewport: MapViewport, deltaX: number, deltaY: number): MapViewport => {
+    return viewportUtils.clampCenter({
+      scale: viewport.scale,
+      centerX: viewport.centerX - deltaX / viewport.scale,
+      centerY: viewport.centerY - deltaY / viewport.scale
+    });
+  },
+
+  /**
+   * Largest view that shows the whole image, optionally capped at `maxScale`
+   */
+  fit: (size: MapSize, maxScale: number = IMAGE_CONSTANTS.MAX_SCALE): MapViewport => {
+    const padding = VIEWPORT_CONSTANTS.FIT_PADDING * 2;
+    const scale = Math.min(
+      (size.width - padding) / IMAGE_CONSTANTS.ORIGINAL_WIDTH,
+      (size.height - padding) / IMAGE_CONSTANTS.ORIGINAL_HEIGHT,
+      maxScale
+    );
+
+    return {
+      scale: viewportUtils.clampScale(scale),
+      centerX: IMAGE_CONSTANTS.ORIGINAL_WIDTH / 2,
+      centerY: IMAGE_CONSTANTS.ORIGINAL_HEIGHT / 2
+    };
+  },
+
+  /**
+   * View centred on a block (or a group of blocks), zoomed so it appears about
+   * ZOOM_TO_AREA_SIZE pixels wide
+   */
+  forArea: (coordinates: AreaCoordinates): MapViewport => {
+    const longestSide = Math.max(coordinates.width, coordinates.height, 1);
+    const center = coordinateUtils.getRectangleCenter(coordinates);
+
+    return viewportUtils.clampCenter({
+      scale: viewportUtils.clampScale(VIEWPORT_CONSTANTS.ZOOM_TO_AREA_SIZE / longestSide),
+      centerX: center.x,
+      centerY: center.y
+    });
   }
 };
 
@@ -196,6 +421,73 @@ export const dateUtils = {
 
 // Analytics utilities
 export const analyticsUtils = {
+  /**
+   * Bucket a raw HTTP status code into its class. Codes outside 2xx-5xx
+   * (0 for no response, or anything unexpected) count as unreachable.
+   */
+  getHttpStatusClass: (status: HTTPStatus): HTTPStatusClass => {
+    if (!Number.isInteger(status)) return HTTP_STATUS_CLASS.UNREACHABLE;
+    if (status >= 200 && status < 300) return HTTP_STATUS_CLASS.SUCCESS;
+    if (status >= 300 && status < 400) return HTTP_STATUS_CLASS.REDIRECT;
+    if (status >= 400 && status < 500) return HTTP_STATUS_CLASS.CLIENT_ERROR;
+    if (status >= 500 && status < 600) return HTTP_STATUS_CLASS.SERVER_ERROR;
+    return HTTP_STATUS_CLASS.UNREACHABLE;
+  },
+
+  /**
+   * Get the display label for an HTTP status class
+   */
+  getHttpStatusClassLabel: (statusClass: HTTPStatusClass): string => {
+    return HTTP_STATUS_CLASS_LABELS[statusClass];
+  },
+
+  /**
+   * Convert the report's *_distribution summary into AnalyticsSummary.
+   * HTTP keys that are raw codes rather than classes are bucketed by class.
+   */
+  normalizeReportSummary: (summary: AnalyticsReportSummary): AnalyticsSummary => {
+    const httpStatus: Partial<Record<HTTPStatusClass, number>> = {};
+    Object.entries(summary.http_status_distribution || {}).forEach(([key, count]) => {
+      const statusClass = key in HTTP_STATUS_CLASS_LABELS
+        ? key as HTTPStatusClass
+        : analyticsUtils.getHttpStatusClass(Number(key));
+      httpStatus[statusClass] = (httpStatus[statusClass] || 0) + count;
+    });
+
+    return {
+      dns_status: { ...summary.dns_status_distribution },
+      http_status: httpStatus,
+      whois_status: { ...summary.whois_status_distribution }
+    };
+  },
+
+  /**
+   * Recompute the status distributions from the areas, counting each
+   * analyzed domain once so the result is comparable to the report summary
+   */
+  summarizeAnalytics: (areas: readonly AreaData[]): AnalyticsSummary => {
+    const dnsStatus: Record<string, number> = {};
+    const httpStatus: Partial<Record<HTTPStatusClass, number>> = {};
+    const whoisStatus: Record<string, number> = {};
+    const seenDomains = new Set<string>();
+
+    areas.forEach(({ analytics }) => {
+      if (!analytics || seenDomains.has(analytics.domain)) return;
+      seenDomains.add(analytics.domain);
+
+      const statusClass = analyticsUtils.getHttpStatusClass(analytics.http_status);
+      dnsStatus[analytics.dns_status] = (dnsStatus[analytics.dns_status] || 0) + 1;
+      httpStatus[statusClass] = (httpStatus[statusClass] || 0) + 1;
+      whoisStatus[analytics.whois_status] = (whoisStatus[analytics.whois_status] || 0) + 1;
+    });
+
+    return {
+      dns_status: dnsStatus,
+      http_status: httpStatus,
+      whois_status: whoisStatus
+    };
+  },
+
   /**
    * Get status color class based on status type and value
    */
@@ -203,8 +495,12 @@ export const analyticsUtils = {
     switch (type) {
       case 'dns':
         return status === DNS_STATUS.NO_ERROR ? 'text-green-600 bg-green-50' : 'text-red-600 bg-red-50';
-      case 'http':
-        return status === HTTP_STATUS.OK ? 'text-green-600 bg-green-50' : 'text-red-600 bg-red-50';
+      case 'http': {
+        const statusClass = typeof status === 'number' ? analyticsUtils.getHttpStatusClass(status) : status;
+        if (statusClass === HTTP_STATUS_CLASS.SUCCESS) return 'text-green-600 bg-green-50';
+        if (statusClass === HTTP_STATUS_CLASS.REDIRECT) return 'text-yellow-600 bg-yellow-50';
+        return 'text-red-600 bg-red-50';
+      }
       case 'whois':
         return status === WHOIS_STATUS.REGISTERED ? 'text-blue-600 bg-blue-50' : 'text-gray-600 bg-gray-50';
       default:
@@ -219,7 +515,7 @@ export const analyticsUtils = {
     if (!analytics) return false;
     
     return analytics.dns_status === DNS_STATUS.NO_ERROR &&
-           analytics.http_status === HTTP_STATUS.OK &&
+           analyticsUtils.getHttpStatusClass(analytics.http_status) === HTTP_STATUS_CLASS.SUCCESS &&
            analytics.whois_status === WHOIS_STATUS.REGISTERED;
   },
 
@@ -235,8 +531,9 @@ export const analyticsUtils = {
     if (analytics.dns_status === DNS_STATUS.NO_ERROR) score += 40;
     
     // HTTP status (30 points)
-    if (analytics.http_status === HTTP_STATUS.OK) score += 30;
-    else if (analytics.http_status >= 200 && analytics.http_status < 400) score += 20;
+    const httpStatusClass = analyticsUtils.getHttpStatusClass(analytics.http_status);
+    if (httpStatusClass === HTTP_STATUS_CLASS.SUCCESS) score += 30;
+    else if (httpStatusClass === HTTP_STATUS_CLASS.REDIRECT) score += 20;
     
     // WHOIS status (20 points)
     if (analytics.whois_status === WHOIS_STATUS.REGISTERED) score += 20;
@@ -268,9 +565,9 @@ export const analyticsUtils = {
       
       if (!area.hasAnalytics) {
         result.unknown.push(area);
-      } else if (score >= 80) {
+      } else if (score >= HEALTH_SCORE_THRESHOLDS.HEALTHY) {
         result.healthy.push(area);
-      } else if (score >= 50) {
+      } else if (score >= HEALTH_SCORE_THRESHOLDS.WARNING) {
         result.warning.push(area);
       } else {
         result.critical.push(area);
@@ -281,6 +578,67 @@ export const analyticsUtils = {
   }
 };
 
+// Advertiser utilities
+export const advertiserUtils = {
+  /**
+   * Group areas by domain into advertisers, in order of each domain's first block
+   */
+  buildAdvertisers: (areas: readonly AreaData[]): Map<string, Advertiser> => {
+    const grouped = new Map<string, AreaData[]>();
+    areas.forEach(area => {
+      const domainAreas = grouped.get(area.domain);
+      if (domainAreas) {
+        domainAreas.push(area);
+      } else {
+        grouped.set(area.domain, [area]);
+      }
+    });
+
+    const advertisers = new Map<string, Advertiser>();
+    grouped.forEach((domainAreas, domain) => {
+      const left = Math.min(...domainAreas.map(area => area.coordinates.x));
+      const top = Math.min(...domainAreas.map(area => area.coordinates.y));
+      const right = Math.max(...domainAreas.map(area => area.coordinates.x + area.coordinates.width));
+      const bottom = Math.max(...domainAreas.map(area => area.coordinates.y + area.coordinates.height));
+
+      advertisers.set(domain, {
+        domain,
+        areas: domainAreas,
+        pixelCount: domainAreas.reduce(
+          (total, area) => total + coordinateUtils.calculateArea(area.coordinates.width, area.coordinates.height),
+          0
+        ),
+        bounds: { x: left, y: top, width: right - left, height: bottom - top },
+        titles: Array.from(new Set(domainAreas.map(area => area.title).filter(Boolean))),
+        analytics: domainAreas.find(area => area.analytics)?.analytics ?? null
+      });
+    });
+
+    return advertisers;
+  },
+
+  /**
+   * Group a list of areas (e.g. search results) per advertiser, keeping the
+   * order in which each advertiser first appears. Unknown domains are skipped.
+   */
+  groupByAdvertiser: (areas: readonly AreaData[], advertisers: ReadonlyMap<string, Advertiser>): AdvertiserMatch[] => {
+    const matches = new Map<string, AreaData[]>();
+    areas.forEach(area => {
+      const domainAreas = matches.get(area.domain);
+      if (domainAreas) {
+        domainAreas.push(area);
+      } else {
+        matches.set(area.domain, [area]);
+      }
+    });
+
+    return Array.from(matches).flatMap(([domain, domainAreas]) => {
+      const advertiser = advertisers.get(domain);
+      return advertiser ? [{ advertiser, areas: domainAreas }] : [];
+    });
+  }
+};
+
 // Search and filter utilities
 export const searchUtils = {
   /**
@@ -290,54 +648,163 @@ export const searchUtils = {
     searchFn: (...args: T) => void,
     delay: number
   ): ((...args: T) => void) => {
-    let timeoutId: number;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
     
     return (...args: T) => {
       clearTimeout(timeoutId);
-      timeoutId = window.setTimeout(() => searchFn(...args), delay);
+      timeoutId = setTimeout(() => searchFn(...args), delay);
     };
   },
 
   /**
-   * Highlight search terms in text
+   * Suggestions for the word being typed: values for a `field:` word (TLDs and
+   * nameserver providers come from the data), otherwise query fields, domains
+   * and title keywords that start with it
    */
-  highlightSearchTerms: (text: string, searchTerm: string): string => {
-    if (!searchTerm || !text) return text;
-    
-    const regex = new RegExp(`(${searchTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
-    return text.replace(regex, '<mark>$1</mark>');
-  },
+  getSearchSuggestions: (
+    areas: readonly AreaData[],
+    word: string,
+    limit: number = SEARCH_CONSTANTS.MAX_SUGGESTIONS
+  ): SearchSuggestion[] => {
+    const lowerWord = word.toLowerCase();
+    const fieldWord = lowerWord.match(/^([a-z]+):(.*)$/);
 
-  /**
-   * Extract search suggestions from domains
-   */
-  getSearchSuggestions: (areas: readonly AreaData[], query: string, limit = 5): string[] => {
-    if (!query || query.length < 2) return [];
-    
-    const suggestions = new Set<string>();
-    const lowerQuery = query.toLowerCase();
-    
-    areas.forEach(area => {
-      const domain = area.domain.toLowerCase();
-      const title = area.title.toLowerCase();
-      
-      // Add domain if it starts with query
-      if (domain.startsWith(lowerQuery)) {
-        suggestions.add(area.domain);
-      }
-      
-      // Add words from title that start with query
-      title.split(/\s+/).forEach(word => {
-        if (word.startsWith(lowerQuery) && word.length > query.length) {
-          suggestions.add(word);
-        }
-      });
-    });
-    
-    return Array.from(suggestions).slice(0, limit);
+    if (fieldWord) {
+      const [, field, partial] = fieldWord;
+      const bare = (value: string) => value.toLowerCase().replace(/\*/g, '');
+      return getFieldValueSuggestions(areas, field)
+        .filter(({ value }) => bare(value).startsWith(bare(partial)) && value.toLowerCase() !== partial)
+        .map(suggestion => ({ ...suggestion, value: `${field}:${suggestion.value}` }))
+        .slice(0, limit);
+    }
+
+    if (!lowerWord || lowerWord.startsWith('"')) return [];
+
+    const fields: SearchSuggestion[] = QUERY_FIELD_NAMES
+      .filter(field => field.startsWith(lowerWord))
+      .map(field => ({ kind: SEARCH_SUGGESTION_KIND.FIELD, value: `${field}:`, description: QUERY_FIELD_LABELS[field] }));
+    if (lowerWord.length < SEARCH_CONSTANTS.MIN_MATCH_CHAR_LENGTH) return fields.slice(0, limit);
+
+    const source = getSuggestionSource(areas);
+    const domains: SearchSuggestion[] = source.domains
+      .filter(domain => domain.toLowerCase().startsWith(lowerWord))
+      .slice(0, limit)
+      .map(domain => ({ kind: SEARCH_SUGGESTION_KIND.DOMAIN, value: domain }));
+    const keywords: SearchSuggestion[] = source.keywords
+      .filter(keyword => keyword.startsWith(lowerWord) && keyword.length > lowerWord.length)
+      .slice(0, limit)
+      .map(keyword => ({ kind: SEARCH_SUGGESTION_KIND.KEYWORD, value: keyword }));
+
+    // Split what is left between domains and keywords, giving unused room to the other
+    const remaining = Math.max(0, limit - fields.length);
+    const keywordCount = Math.max(Math.floor(remaining / 2), remaining - domains.length);
+    const shownKeywords = keywords.slice(0, keywordCount);
+    const shownDomains = domains.slice(0, remaining - shownKeywords.length);
+
+    return [...fields, ...shownDomains, ...shownKeywords].slice(0, limit);
   }
 };
 
+// Suggestion candidates for one set of areas, most common first; built on first use
+interface SuggestionSource {
+  readonly domains: readonly string[];
+  readonly keywords: readonly string[];
+  readonly tlds: readonly [string, number][];
+  readonly nameserverProviders: readonly [string, number][];
+}
+
+const suggestionSources = new WeakMap<readonly AreaData[], SuggestionSource>();
+
+const QUERY_FIELD_NAMES: readonly (keyof typeof QUERY_FIELD_LABELS)[] = Object.values(QUERY_FIELDS);
+
+const byCount = (counts: Map<string, number>): [string, number][] =>
+  [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+
+const increment = (counts: Map<string, number>, key: string) => counts.set(key, (counts.get(key) ?? 0) + 1);
+
+// `ns-1.awsdns-45.com` and `ns2.awsdns-07.org` are both "awsdns"
+function getNameserverProvider(nameserver: string): string | null {
+  const normalized = normalizeDomain(nameserver);
+  if (!normalized.success) return null;
+  const label = normalized.data.registrableDomain.split('.')[0].replace(/-?\d+$/, '');
+  return label || null;
+}
+
+function getSuggestionSource(areas: readonly AreaData[]): SuggestionSource {
+  const cached = suggestionSources.get(areas);
+  if (cached) return cached;
+
+  const domains = new Set<string>();
+  const keywords = new Map<string, number>();
+  const tlds = new Map<string, number>();
+  const providers = new Map<string, number>();
+
+  areas.forEach(area => {
+    if (area.kind !== AREA_KIND.DOMAIN) return;
+
+    domains.add(area.domain);
+    new Set(area.title.toLowerCase().split(/[^\p{L}\p{N}'-]+/u))
+      .forEach(word => word.length >= SEARCH_CONSTANTS.MIN_MATCH_CHAR_LENGTH && increment(keywords, word));
+
+    const tld = domainUtils.getTLD(area.domain);
+    if (tld) increment(tlds, tld);
+
+    const areaProviders = new Set(
+      (area.analytics?.nameservers ?? []).map(getNameserverProvider).filter((provider): provider is string => provider !== null)
+    );
+    areaProviders.forEach(provider => increment(providers, provider));
+  });
+
+  const source: SuggestionSource = {
+    domains: [...domains],
+    keywords: byCount(keywords).map(([keyword]) => keyword),
+    tlds: byCount(tlds),
+    nameserverProviders: byCount(providers)
+  };
+  suggestionSources.set(areas, source);
+  return source;
+}
+
+const pluralBlocks = (count: number): string => `${count} block${count !== 1 ? 's' : ''}`;
+
+// Values a query field accepts, without the `field:` prefix
+function getFieldValueSuggestions(areas: readonly AreaData[], field: string): SearchSuggestion[] {
+  const fieldValue = (value: string): SearchSuggestion => ({ kind: SEARCH_SUGGESTION_KIND.FIELD, value });
+  const flags = ['yes', 'no'].map(fieldValue);
+
+  switch (field) {
+    case QUERY_FIELDS.DNS:
+      return Object.values(DNS_STATUS).map(fieldValue);
+    case QUERY_FIELDS.HTTP:
+      return Object.values(HTTP_STATUS_CLASS).map(value => ({ ...fieldValue(value), description: HTTP_STATUS_CLASS_LABELS[value] }));
+    case QUERY_FIELDS.WHOIS:
+      return Object.values(WHOIS_STATUS).map(fieldValue);
+    case QUERY_FIELDS.KIND:
+      return Object.values(AREA_KIND).map(value => ({ ...fieldValue(value), description: AREA_KIND_LABELS[value] }));
+    case QUERY_FIELDS.ANALYTICS:
+      return flags;
+    case QUERY_FIELDS.IN:
+      return [fieldValue('title')];
+    case QUERY_FIELDS.TLD:
+      return getSuggestionSource(areas).tlds.map(([tld, count]) => ({
+        kind: SEARCH_SUGGESTION_KIND.TLD,
+        value: tld,
+        description: pluralBlocks(count)
+      }));
+    case QUERY_FIELDS.NAMESERVER:
+      return [
+        ...flags,
+        ...getSuggestionSource(areas).nameserverProviders.map(([provider, count]): SearchSuggestion => ({
+          kind: SEARCH_SUGGESTION_KIND.NAMESERVER,
+          value: `*${provider}*`,
+          description: pluralBlocks(count)
+        }))
+      ];
+    default:
+      return [];
+  }
+}
+
 // Performance utilities
 export const performanceUtils = {
   /**
@@ -403,8 +870,10 @@ export const performanceUtils = {
 export const utils = {
   domain: domainUtils,
   coordinate: coordinateUtils,
+  viewport: viewportUtils,
   date: dateUtils,
   analytics: analyticsUtils,
+  advertiser: advertiserUtils,
   search: searchUtils,
   performance: performanceUtils
 };
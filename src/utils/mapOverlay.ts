@@ -0,0 +1,203 @@
+/**
+ * Thematic map overlays
+ *
+ * An overlay sorts every block on the map into a category of one analytics
+ * dimension (DNS status, health score, registration year, ...) and gives each
+ * category a colour for the map and its legend. Blocks without analytics land
+ * in a "No data" category so every block is coloured.
+ */
+
+import { DomainAnalytics, MapOverlay } from '../types';
+import {
+  DNS_STATUS,
+  HEALTH_SCORE_THRESHOLDS,
+  HTTP_STATUS_CLASS,
+  HTTP_STATUS_CLASS_LABELS,
+  MAP_OVERLAY,
+  MAP_OVERLAY_CONSTANTS,
+  WHOIS_STATUS
+} from '../constants';
+import { analyticsUtils, dateUtils } from './index';
+
+/** One legend entry; `count` is the number of blocks in it */
+export interface OverlayCategory {
+  readonly key: string;
+  readonly label: string;
+  readonly color: string;
+  readonly count: number;
+}
+
+/** Overlay categories in legend order and the category of every item */
+export interface OverlayResult<T> {
+  readonly categories: readonly OverlayCategory[];
+  readonly categoryOf: ReadonlyMap<T, string>;
+}
+
+type CategoryDefinition = Omit<OverlayCategory, 'count'>;
+
+const NO_DATA: CategoryDefinition = { key: 'no_data', label: 'No data', color: '#9CA3AF' };
+const OTHER_DNS: CategoryDefinition = { key: 'other', label: 'Other', color: '#64748B' };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fixed categories per metric, in legend order
+const STATIC_CATEGORIES: Partial<Record<MapOverlay, readonly CategoryDefinition[]>> = {
+  [MAP_OVERLAY.DNS_STATUS]: [
+    { key: DNS_STATUS.NO_ERROR, label: DNS_STATUS.NO_ERROR, color: '#22C55E' },
+    { key: DNS_STATUS.NX_DOMAIN, label: DNS_STATUS.NX_DOMAIN, color: '#EF4444' },
+    { key: DNS_STATUS.SERV_FAIL, label: DNS_STATUS.SERV_FAIL, color: '#F97316' },
+    { key: DNS_STATUS.TIMEOUT, label: DNS_STATUS.TIMEOUT, color: '#EAB308' },
+    { key: DNS_STATUS.REFUSED, label: DNS_STATUS.REFUSED, color: '#A855F7' },
+    { key: DNS_STATUS.ERROR, label: DNS_STATUS.ERROR, color: '#EC4899' },
+    OTHER_DNS,
+    NO_DATA
+  ],
+  [MAP_OVERLAY.HTTP_STATUS]: [
+    { key: HTTP_STATUS_CLASS.SUCCESS, label: HTTP_STATUS_CLASS_LABELS.success, color: '#22C55E' },
+    { key: HTTP_STATUS_CLASS.REDIRECT, label: HTTP_STATUS_CLASS_LABELS.redirect, color: '#EAB308' },
+    { key: HTTP_STATUS_CLASS.CLIENT_ERROR, label: HTTP_STATUS_CLASS_LABELS.client_error, color: '#F97316' },
+    { key: HTTP_STATUS_CLASS.SERVER_ERROR, label: HTTP_STATUS_CLASS_LABELS.server_error, color: '#EF4444' },
+    { key: HTTP_STATUS_CLASS.UNREACHABLE, label: HTTP_STATUS_CLASS_LABELS.unreachable, color: '#7C3AED' },
+    NO_DATA
+  ],
+  [MAP_OVERLAY.WHOIS_STATUS]: [
+    { key: WHOIS_STATUS.REGISTERED, label: 'Registered', color: '#3B82F6' },
+    { key: WHOIS_STATUS.AVAILABLE, label: 'Available', color: '#22C55E' },
+    { key: WHOIS_STATUS.UNKNOWN, label: 'Unknown', color: '#F59E0B' },
+    { key: WHOIS_STATUS.ERROR, label: 'Error', color: '#EF4444' },
+    NO_DATA
+  ],
+  [MAP_OVERLAY.HEALTH_SCORE]: [
+    { key: 'healthy', label: `Healthy (${HEALTH_SCORE_THRESHOLDS.HEALTHY}+)`, color: '#22C55E' },
+    { key: 'warning', label: `Warning (${HEALTH_SCORE_THRESHOLDS.WARNING}-${HEALTH_SCORE_THRESHOLDS.HEALTHY - 1})`, color: '#EAB308' },
+    { key: 'critical', label: `Critical (<${HEALTH_SCORE_THRESHOLDS.WARNING})`, color: '#EF4444' },
+    NO_DATA
+  ],
+  [MAP_OVERLAY.EXPIRY]: [
+    { key: 'expired', label: 'Expired', color: '#DC2626' },
+    { key: 'month', label: 'Within 30 days', color: '#F97316' },
+    { key: 'year', label: 'Within a year', color: '#FACC15' },
+    { key: 'five_years', label: '1-5 years', color: '#84CC16' },
+    { key: 'later', label: 'Over 5 years', color: '#16A34A' },
+    NO_DATA
+  ],
+  [MAP_OVERLAY.NO_ANALYTICS]: [
+    { key: 'missing', label: 'No analytics', color: '#EF4444' },
+    { key: 'present', label: 'Has analytics', color: '#93C5FD' }
+  ]
+};
+
+const KNOWN_DNS_STATUSES: readonly string[] = Object.values(DNS_STATUS);
+
+// Registration years run from light (recent) to dark (early web)
+const YEAR_RAMP_START = [219, 234, 254];
+const YEAR_RAMP_END = [30, 58, 138];
+
+function rampColor(position: number): string {
+  const channels = YEAR_RAMP_START.map((start, index) =>
+    Math.round(start + (YEAR_RAMP_END[index] - start) * position)
+  );
+  return `rgb(${channels.join(', ')})`;
+}
+
+function getExpiryKey(expiryDate: string | undefined, now: number): string {
+  if (!expiryDate || !dateUtils.isValidDate(expiryDate)) return NO_DATA.key;
+
+  const days = (new Date(expiryDate).getTime() - now) / DAY_MS;
+  if (days <= 0) return 'expired';
+  if (days < 30) return 'month';
+  if (days < 365) return 'year';
+  if (days < 5 * 365) return 'five_years';
+  return 'later';
+}
+
+function getYearBucket(registeredAt: string | undefined): number | null {
+  if (!registeredAt || !dateUtils.isValidDate(registeredAt)) return null;
+
+  const year = new Date(registeredAt).getUTCFullYear();
+  return Math.floor(year / MAP_OVERLAY_CONSTANTS.YEAR_BUCKET_SIZE) * MAP_OVERLAY_CONSTANTS.YEAR_BUCKET_SIZE;
+}
+
+/**
+ * Category of one block's analytics for a metric. Registration years are
+ * bucketed and keyed by the first year of the bucket.
+ */
+export function getOverlayCategoryKey(
+  metric: MapOverlay,
+  analytics: DomainAnalytics | null,
+  now = Date.now()
+): string {
+  if (metric === MAP_OVERLAY.NO_ANALYTICS) return analytics ? 'present' : 'missing';
+  if (!analytics) return NO_DATA.key;
+
+  switch (metric) {
+    case MAP_OVERLAY.DNS_STATUS:
+      return KNOWN_DNS_STATUSES.includes(analytics.dns_status) ? analytics.dns_status : OTHER_DNS.key;
+    case MAP_OVERLAY.HTTP_STATUS:
+      return analyticsUtils.getHttpStatusClass(analytics.http_status);
+    case MAP_OVERLAY.WHOIS_STATUS:
+      return analytics.whois_status;
+    case MAP_OVERLAY.HEALTH_SCORE: {
+      const score = analyticsUtils.getDomainHealthScore(analytics);
+      if (score >= HEALTH_SCORE_THRESHOLDS.HEALTHY) return 'healthy';
+      if (score >= HEALTH_SCORE_THRESHOLDS.WARNING) return 'warning';
+      return 'critical';
+    }
+    case MAP_OVERLAY.REGISTRATION_YEAR: {
+      const bucket = getYearBucket(analytics.registered_at);
+      return bucket === null ? NO_DATA.key : String(bucket);
+    }
+    case MAP_OVERLAY.EXPIRY:
+      return getExpiryKey(analytics.expiry_date, now);
+    default:
+      return NO_DATA.key;
+  }
+}
+
+// Registration year buckets are only known once the data has been seen
+function getYearCategories(keys: Iterable<string>): CategoryDefinition[] {
+  const buckets = Array.from(new Set(keys))
+    .filter(key => key !== NO_DATA.key)
+    .map(Number)
+    .sort((a, b) => a - b);
+
+  const categories = buckets.map((start, index) => ({
+    key: String(start),
+    label: `${start}-${start + MAP_OVERLAY_CONSTANTS.YEAR_BUCKET_SIZE - 1}`,
+    color: rampColor(buckets.length > 1 ? 1 - index / (buckets.length - 1) : 1)
+  }));
+
+  return [...categories, NO_DATA];
+}
+
+/**
+ * Sort items into the metric's categories. Only categories that contain at
+ * least one item are returned.
+ */
+export function createOverlay<T>(
+  metric: MapOverlay,
+  items: readonly T[],
+  getAnalytics: (item: T) => DomainAnalytics | null,
+  now = Date.now()
+): OverlayResult<T> {
+  const categoryOf = new Map<T, string>();
+  const counts = new Map<string, number>();
+
+  if (metric === MAP_OVERLAY.NONE) return { categories: [], categoryOf };
+
+  items.forEach(item => {
+    const key = getOverlayCategoryKey(metric, getAnalytics(item), now);
+    categoryOf.set(item, key);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+
+  const definitions = metric === MAP_OVERLAY.REGISTRATION_YEAR
+    ? getYearCategories(counts.keys())
+    : STATIC_CATEGORIES[metric] ?? [];
+
+  const categories = definitions
+    .filter(definition => counts.has(definition.key))
+    .map(definition => ({ ...definition, count: counts.get(definition.key) ?? 0 }));
+
+  return { categories, categoryOf };
+}
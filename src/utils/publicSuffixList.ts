@@ -0,0 +1,75 @@
+/**
+ * Bundled public suffix rules
+ *
+ * A trimmed copy of the ICANN section of the Public Suffix List
+ * (https://publicsuffix.org/list/), in the list's own rule syntax: plain
+ * suffixes, `*.` wildcards and `!` exceptions. It covers the generic TLDs,
+ * every country-code TLD and the second-level registries that domains on the
+ * homepage actually use. Suffixes missing here fall back to the list's
+ * default rule, which treats the last label as the suffix.
+ */
+
+const GENERIC_TLDS = [
+  'aero', 'app', 'arpa', 'asia', 'biz', 'blog', 'cat', 'club', 'com', 'coop', 'dev', 'edu', 'gov',
+  'info', 'int', 'io', 'jobs', 'mil', 'mobi', 'museum', 'name', 'net', 'online', 'org', 'pro', 'shop',
+  'site', 'store', 'tech', 'tel', 'travel', 'xxx', 'xyz'
+];
+
+const COUNTRY_CODE_TLDS = [
+  'ac', 'ad', 'ae', 'af', 'ag', 'ai', 'al', 'am', 'ao', 'aq', 'ar', 'as', 'at', 'au', 'aw', 'ax', 'az',
+  'ba', 'bb', 'bd', 'be', 'bf', 'bg', 'bh', 'bi', 'bj', 'bm', 'bn', 'bo', 'br', 'bs', 'bt', 'bw', 'by', 'bz',
+  'ca', 'cc', 'cd', 'cf', 'cg', 'ch', 'ci', 'ck', 'cl', 'cm', 'cn', 'co', 'cr', 'cu', 'cv', 'cw', 'cx', 'cy', 'cz',
+  'de', 'dj', 'dk', 'dm', 'do', 'dz', 'ec', 'ee', 'eg', 'er', 'es', 'et', 'eu',
+  'fi', 'fj', 'fk', 'fm', 'fo', 'fr', 'ga', 'gd', 'ge', 'gf', 'gg', 'gh', 'gi', 'gl', 'gm', 'gn', 'gp', 'gq',
+  'gr', 'gs', 'gt', 'gu', 'gw', 'gy', 'hk', 'hm', 'hn', 'hr', 'ht', 'hu',
+  'id', 'ie', 'il', 'im', 'in', 'iq', 'ir', 'is', 'it', 'je', 'jm', 'jo', 'jp',
+  'ke', 'kg', 'kh', 'ki', 'km', 'kn', 'kp', 'kr', 'kw', 'ky', 'kz',
+  'la', 'lb', 'lc', 'li', 'lk', 'lr', 'ls', 'lt', 'lu', 'lv', 'ly',
+  'ma', 'mc', 'md', 'me', 'mg', 'mh', 'mk', 'ml', 'mm', 'mn', 'mo', 'mp', 'mq', 'mr', 'ms', 'mt', 'mu', 'mv',
+  'mw', 'mx', 'my', 'mz', 'na', 'nc', 'ne', 'nf', 'ng', 'ni', 'nl', 'no', 'np', 'nr', 'nu', 'nz', 'om',
+  'pa', 'pe', 'pf', 'pg', 'ph', 'pk', 'pl', 'pm', 'pn', 'pr', 'ps', 'pt', 'pw', 'py', 'qa',
+  're', 'ro', 'rs', 'ru', 'rw', 'sa', 'sb', 'sc', 'sd', 'se', 'sg', 'sh', 'si', 'sk', 'sl', 'sm', 'sn', 'so',
+  'sr', 'ss', 'st', 'su', 'sv', 'sx', 'sy', 'sz', 'tc', 'td', 'tf', 'tg', 'th', 'tj', 'tk', 'tl', 'tm', 'tn',
+  'to', 'tr', 'tt', 'tv', 'tw', 'tz', 'ua', 'ug', 'uk', 'us', 'uy', 'uz', 'va', 'vc', 've', 'vg', 'vi', 'vn', 'vu',
+  'wf', 'ws', 'ye', 'yt', 'za', 'zm', 'zw'
+];
+
+// Registries that sell names one level below the country code
+const SECOND_LEVEL_SUFFIXES = [
+  'com.ar', 'gob.ar', 'net.ar', 'org.ar',
+  'asn.au', 'com.au', 'edu.au', 'gov.au', 'id.au', 'net.au', 'org.au',
+  'com.br', 'gov.br', 'net.br', 'org.br',
+  'ac.cn', 'com.cn', 'edu.cn', 'gov.cn', 'net.cn', 'org.cn',
+  'com.co', 'net.co', 'org.co',
+  'com.cy', 'com.eg', 'com.es', 'nom.es', 'org.es',
+  'com.gr', 'com.hk', 'net.hk', 'org.hk',
+  'ac.id', 'co.id', 'or.id',
+  'ac.il', 'co.il', 'net.il', 'org.il',
+  'ac.in', 'co.in', 'firm.in', 'gen.in', 'ind.in', 'net.in', 'org.in',
+  'ac.jp', 'co.jp', 'ed.jp', 'go.jp', 'gr.jp', 'lg.jp', 'ne.jp', 'or.jp',
+  'co.kr', 'or.kr',
+  'com.mt', 'com.mx', 'org.mx', 'com.my', 'net.my', 'org.my',
+  'com.ng', 'ac.nz', 'co.nz', 'geek.nz', 'gen.nz', 'govt.nz', 'net.nz', 'org.nz', 'school.nz',
+  'com.pe', 'com.ph', 'com.pk',
+  'com.pl', 'net.pl', 'org.pl',
+  'com.pt', 'com.ru', 'com.sa', 'com.sg', 'edu.sg', 'org.sg',
+  'ac.th', 'co.th', 'in.th',
+  'com.tr', 'gen.tr', 'net.tr', 'org.tr',
+  'com.tw', 'idv.tw', 'net.tw', 'org.tw',
+  'com.ua', 'kiev.ua', 'net.ua', 'org.ua',
+  'ac.uk', 'co.uk', 'gov.uk', 'ltd.uk', 'me.uk', 'net.uk', 'nhs.uk', 'org.uk', 'plc.uk', 'police.uk', 'sch.uk',
+  'com.uy', 'com.ve', 'com.vn',
+  'ac.za', 'co.za', 'gov.za', 'net.za', 'org.za', 'web.za'
+];
+
+const WILDCARD_RULES = ['*.bd', '*.ck', '*.er', '*.fk', '*.jm', '*.kh', '*.mm', '*.np', '*.pg'];
+
+const EXCEPTION_RULES = ['!www.ck'];
+
+export const PUBLIC_SUFFIX_RULES: readonly string[] = [
+  ...GENERIC_TLDS,
+  ...COUNTRY_CODE_TLDS,
+  ...SECOND_LEVEL_SUFFIXES,
+  ...WILDCARD_RULES,
+  ...EXCEPTION_RULES
+];
@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatSearchFilters, parseSearchQuery, rewriteSearchQuery } from './queryLanguage';
+import { SearchFilters } from '../types';
+
+describe('parseSearchQuery', () => {
+  it('splits clauses from free text', () => {
+    const { filters, text, errors } = parseSearchQuery('dns:nxdomain casino http:>=400 "pixel art"');
+    assert.deepEqual(filters, { dnsStatus: 'NXDOMAIN', httpCode: { min: 400 } });
+    assert.equal(text, 'casino pixel art');
+    assert.deepEqual(errors, []);
+  });
+
+  it('reads comparisons, ranges and date periods inclusively', () => {
+    assert.deepEqual(parseSearchQuery('len:>5').filters, { domainLength: { min: 6 } });
+    assert.deepEqual(parseSearchQuery('size:100..400').filters, { pixelSize: { min: 100, max: 400 } });
+    assert.deepEqual(parseSearchQuery('registered:<2006').filters, { dateRange: { end: '2005-12-31' } });
+    assert.deepEqual(parseSearchQuery('registered:2005-02').filters, {
+      dateRange: { start: '2005-02-01', end: '2005-02-28' }
+    });
+  });
+
+  it('keeps URLs and unknown field names as free text', () => {
+    assert.deepEqual(parseSearchQuery('http://site.com'), { filters: {}, text: 'http://site.com', errors: [] });
+    assert.deepEqual(parseSearchQuery('Note: x'), { filters: {}, text: 'Note: x', errors: [] });
+    assert.deepEqual(parseSearchQuery('https://a.com tld:com'), {
+      filters: { tld: 'com' },
+      text: 'https://a.com',
+      errors: []
+    });
+  });
+
+  it('reports invalid clauses at their position and leaves them out', () => {
+    const { filters, text, errors } = parseSearchQuery('pixels whois:maybe len:9..3');
+    assert.deepEqual(filters, {});
+    assert.equal(text, 'pixels');
+    assert.deepEqual(errors.map(({ start, end }) => [start, end]), [[7, 18], [19, 27]]);
+  });
+
+  it('reports an unterminated quote', () => {
+    const { text, errors } = parseSearchQuery('"million dollar');
+    assert.equal(text, 'million dollar');
+    assert.equal(errors[0].message, 'Missing closing quote');
+  });
+});
+
+describe('formatSearchFilters', () => {
+  const roundTrips: readonly SearchFilters[] = [
+    { dnsStatus: 'NXDOMAIN', whoisStatus: 'registered', hasAnalytics: true },
+    { httpStatus: 'client_error', httpCode: { min: 500, max: 599 } },
+    { areaKind: 'pending', domainLength: { max: 8 }, pixelSize: { min: 100 } },
+    { dateRange: { start: '2005-01-01', end: '2005-06-30' }, tld: 'co.uk' },
+    { hasNameservers: true, nameserver: '*awsdns*', searchInTitle: true },
+    { domainLength: { min: 7, max: 7 }, dateRange: { start: '2005-09-01', end: '2005-09-01' } }
+  ];
+
+  roundTrips.forEach(filters => {
+    it(`round-trips ${JSON.stringify(filters)}`, () => {
+      const { filters: parsed, errors } = parseSearchQuery(formatSearchFilters(filters));
+      assert.deepEqual(parsed, filters);
+      assert.deepEqual(errors, []);
+    });
+  });
+
+  it('writes nothing for empty filters', () => {
+    assert.equal(formatSearchFilters({}), '');
+    assert.equal(formatSearchFilters({ domainLength: {} }), '');
+  });
+});
+
+describe('rewriteSearchQuery', () => {
+  it('replaces clauses and keeps free text in place', () => {
+    assert.equal(
+      rewriteSearchQuery('casino dns:NXDOMAIN "pixel art"', { tld: 'com' }),
+      'tld:com casino "pixel art"'
+    );
+  });
+
+  it('keeps invalid clauses and URLs as typed', () => {
+    assert.equal(
+      rewriteSearchQuery('http://site.com whois:maybe len:<5', { hasAnalytics: false }),
+      'analytics:no http://site.com whois:maybe'
+    );
+  });
+
+  it('parses back to the filters it was given, with the same free text', () => {
+    const query = 'kind:domain "dollar home" Note: registered:2005';
+    const filters: SearchFilters = { httpCode: { min: 400 }, nameserver: 'ns?.example.*' };
+    const parsed = parseSearchQuery(rewriteSearchQuery(query, filters));
+
+    assert.deepEqual(parsed.filters, filters);
+    assert.equal(parsed.text, parseSearchQuery(query).text);
+  });
+
+  it('clears every clause when given no filters', () => {
+    assert.equal(rewriteSearchQuery('dns:NXDOMAIN size:>10', {}), '');
+  });
+});
@@ -0,0 +1,350 @@
+/**
+ * Search box query language
+ *
+ * A query mixes free text with `field:value` clauses, e.g.
+ * `dns:NXDOMAIN http:>=400 tld:com registered:<2006 ns:*awsdns* size:>100 "casino"`.
+ * Numeric and date fields take a value, a comparison (`>`, `>=`, `<`, `<=`)
+ * or a range `from..to`; dates may be a year, a month or a day. Clauses map
+ * onto SearchFilters and the rest is free text for the fuzzy search.
+ * Clauses that do not parse are reported with their position and ignored.
+ * Only known field names start a clause, so URLs and words such as `Note:`
+ * stay free text.
+ */
+
+import { AreaKind, HTTPStatusClass, QuerySyntaxError, SearchFilters, WHOISStatus } from '../types';
+import { AREA_KIND, HTTP_STATUS_CLASS, QUERY_FIELDS, WHOIS_STATUS } from '../constants';
+
+/** Result of parsing a query; `text` is the free text with quotes removed */
+export interface ParsedSearchQuery {
+  readonly filters: SearchFilters;
+  readonly text: string;
+  readonly errors: readonly QuerySyntaxError[];
+}
+
+type Mutable<T> = { -readonly [K in keyof T]: T[K] };
+type QueryField = (typeof QUERY_FIELDS)[keyof typeof QUERY_FIELDS];
+type NumericRange = { readonly min?: number; readonly max?: number };
+type DateRange = { readonly start?: string; readonly end?: string };
+
+// A whitespace-separated piece of the query; `source` is the original text
+interface QueryToken {
+  readonly source: string;
+  readonly start: number;
+  readonly end: number;
+  readonly quoted: boolean;
+}
+
+// A clause either sets part of the filters or fails with a message
+type ClauseResult = { readonly filters: SearchFilters } | { readonly error: string };
+
+// `http://…` is a URL, not an http: clause
+const FIELD_REGEX = /^([a-z]+):(?!\/\/)(.*)$/i;
+const COMPARISON_REGEX = /^(>=|<=|>|<)?(.+)$/;
+const RANGE_SEPARATOR = '..';
+const DATE_REGEX = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/;
+const DNS_STATUS_REGEX = /^[a-z]+$/i;
+const TLD_REGEX = /^[a-z\d-]+(\.[a-z\d-]+)*$/;
+const HOSTNAME_PATTERN_REGEX = /^[a-z\d.*?-]+$/i;
+const BOOLEAN_VALUES: Readonly<Record<string, boolean>> = { yes: true, true: true, no: false, false: false };
+
+const HTTP_CLASS_VALUES: readonly string[] = Object.values(HTTP_STATUS_CLASS);
+const WHOIS_VALUES: readonly string[] = Object.values(WHOIS_STATUS);
+const AREA_KIND_VALUES: readonly string[] = Object.values(AREA_KIND);
+const FIELD_NAMES: readonly string[] = Object.values(QUERY_FIELDS);
+
+const isQueryField = (name: string): name is QueryField => FIELD_NAMES.includes(name);
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Split a query into words and quoted phrases. An unterminated quote runs to
+ * the end of the query and is reported.
+ */
+function tokenize(query: string, errors: QuerySyntaxError[]): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let index = 0;
+
+  while (index < query.length) {
+    if (/\s/.test(query[index])) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    if (query[index] === '"') {
+      index++;
+      while (index < query.length && query[index] !== '"') {
+        index += query[index] === '\\' ? 2 : 1;
+      }
+      if (index >= query.length) {
+        errors.push({ message: 'Missing closing quote', start, end: query.length });
+      } else {
+        index++;
+      }
+      tokens.push({ source: query.slice(start, Math.min(index, query.length)), start, end: Math.min(index, query.length), quoted: true });
+      continue;
+    }
+
+    while (index < query.length && !/\s/.test(query[index])) index++;
+    tokens.push({ source: query.slice(start, index), start, end: index, quoted: false });
+  }
+
+  return tokens;
+}
+
+const unquote = (source: string): string =>
+  source.replace(/^"/, '').replace(/"$/, '').replace(/\\(.)/g, '$1');
+
+function parseInteger(value: string): number | null {
+  return /^\d+$/.test(value) ? Number(value) : null;
+}
+
+/**
+ * `5`, `>5`, `<=5` or `5..10`; bounds are inclusive and `>`/`<` shift by one
+ */
+function parseNumericRange(value: string): NumericRange | null {
+  if (value.includes(RANGE_SEPARATOR)) {
+    const [from, to] = value.split(RANGE_SEPARATOR, 2);
+    const min = from ? parseInteger(from) : undefined;
+    const max = to ? parseInteger(to) : undefined;
+    if (min === null || max === null || (min === undefined && max === undefined)) return null;
+    if (min !== undefined && max !== undefined && min > max) return null;
+    return { min, max };
+  }
+
+  const [, operator, operand] = value.match(COMPARISON_REGEX) ?? [];
+  const number = operand === undefined ? null : parseInteger(operand);
+  if (number === null) return null;
+
+  switch (operator) {
+    case '>': return { min: number + 1 };
+    case '>=': return { min: number };
+    case '<': return number > 0 ? { max: number - 1 } : null;
+    case '<=': return { max: number };
+    default: return { min: number, max: number };
+  }
+}
+
+/**
+ * First and last day of a year, month or day as YYYY-MM-DD
+ */
+function parseDatePeriod(value: string): { first: string; last: string } | null {
+  const match = value.match(DATE_REGEX);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) : null;
+  const day = match[3] ? Number(match[3]) : null;
+  if (month !== null && (month < 1 || month > 12)) return null;
+
+  if (month === null) return { first: `${year}-01-01`, last: `${year}-12-31` };
+
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day === null) {
+    return { first: `${year}-${pad(month)}-01`, last: `${year}-${pad(month)}-${pad(daysInMonth)}` };
+  }
+  if (day < 1 || day > daysInMonth) return null;
+
+  const date = `${year}-${pad(month)}-${pad(day)}`;
+  return { first: date, last: date };
+}
+
+const shiftDay = (date: string, days: number): string => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
+
+/**
+ * `2005`, `<2006`, `>=2005-06` or `2005..2006-06-30`
+ */
+function parseDateRange(value: string): DateRange | null {
+  if (value.includes(RANGE_SEPARATOR)) {
+    const [from, to] = value.split(RANGE_SEPARATOR, 2);
+    const first = from ? parseDatePeriod(from) : undefined;
+    const last = to ? parseDatePeriod(to) : undefined;
+    if (first === null || last === null || (!first && !last)) return null;
+    if (first && last && first.first > last.last) return null;
+    return { start: first?.first, end: last?.last };
+  }
+
+  const [, operator, operand] = value.match(COMPARISON_REGEX) ?? [];
+  const period = operand === undefined ? null : parseDatePeriod(operand);
+  if (!period) return null;
+
+  switch (operator) {
+    case '>': return { start: shiftDay(period.last, 1) };
+    case '>=': return { start: period.first };
+    case '<': return { end: shiftDay(period.first, -1) };
+    case '<=': return { end: period.last };
+    default: return { start: period.first, end: period.last };
+  }
+}
+
+/*
+ * Single filter values, shared with other sources of filters such as URL
+ * parameters so they can never write a value the query cannot read back.
+ * Each returns the normalised value, or null when it is invalid.
+ */
+
+export function parseDnsStatusValue(value: string): string | null {
+  return DNS_STATUS_REGEX.test(value) ? value.toUpperCase() : null;
+}
+
+export function parseTldValue(value: string): string | null {
+  const tld = value.replace(/^\./, '').toLowerCase();
+  return TLD_REGEX.test(tld) ? tld : null;
+}
+
+export function parseNameserverPattern(value: string): string | null {
+  return HOSTNAME_PATTERN_REGEX.test(value) ? value.toLowerCase() : null;
+}
+
+const invalid = (field: string, expected: string): ClauseResult => ({ error: `${field}: expects ${expected}` });
+
+function parseClause(field: QueryField, value: string): ClauseResult {
+  switch (field) {
+    case QUERY_FIELDS.DNS: {
+      const dnsStatus = parseDnsStatusValue(value);
+      return dnsStatus ? { filters: { dnsStatus } } : invalid(field, 'a DNS status, e.g. dns:NXDOMAIN');
+    }
+    case QUERY_FIELDS.HTTP: {
+      const statusClass = value.toLowerCase();
+      if (HTTP_CLASS_VALUES.includes(statusClass)) return { filters: { httpStatus: statusClass as HTTPStatusClass } };
+      const range = parseNumericRange(value);
+      return range ? { filters: { httpCode: range } } : invalid(field, `a status code, e.g. http:>=400, or one of ${HTTP_CLASS_VALUES.join(', ')}`);
+    }
+    case QUERY_FIELDS.WHOIS: {
+      const status = value.toLowerCase();
+      return WHOIS_VALUES.includes(status) ? { filters: { whoisStatus: status as WHOISStatus } } : invalid(field, `one of ${WHOIS_VALUES.join(', ')}`);
+    }
+    case QUERY_FIELDS.ANALYTICS: {
+      const flag = BOOLEAN_VALUES[value.toLowerCase()];
+      return flag === undefined ? invalid(field, 'yes or no') : { filters: { hasAnalytics: flag } };
+    }
+    case QUERY_FIELDS.KIND: {
+      const kind = value.toLowerCase();
+      return AREA_KIND_VALUES.includes(kind) ? { filters: { areaKind: kind as AreaKind } } : invalid(field, `one of ${AREA_KIND_VALUES.join(', ')}`);
+    }
+    case QUERY_FIELDS.LENGTH: {
+      const range = parseNumericRange(value);
+      return range ? { filters: { domainLength: range } } : invalid(field, 'a length, e.g. len:<=8 or len:5..10');
+    }
+    case QUERY_FIELDS.REGISTERED: {
+      const range = parseDateRange(value);
+      return range ? { filters: { dateRange: range } } : invalid(field, 'a date, e.g. registered:<2006 or registered:2005-06..2005-12');
+    }
+    case QUERY_FIELDS.NAMESERVER: {
+      const flag = BOOLEAN_VALUES[value.toLowerCase()];
+      if (flag !== undefined) return { filters: { hasNameservers: flag } };
+      const nameserver = parseNameserverPattern(value);
+      return nameserver ? { filters: { nameserver } } : invalid(field, 'yes, no or a nameserver pattern, e.g. ns:*awsdns*');
+    }
+    case QUERY_FIELDS.TLD: {
+      const tld = parseTldValue(value);
+      return tld ? { filters: { tld } } : invalid(field, 'a suffix, e.g. tld:com or tld:co.uk');
+    }
+    case QUERY_FIELDS.SIZE: {
+      const range = parseNumericRange(value);
+      return range ? { filters: { pixelSize: range } } : invalid(field, 'a pixel count, e.g. size:>100');
+    }
+    case QUERY_FIELDS.IN:
+      return value.toLowerCase() === 'title' ? { filters: { searchInTitle: true } } : invalid(field, 'title');
+  }
+}
+
+// Field clauses parsed in place, so callers can tell valid clauses from the rest
+function parseTokens(query: string) {
+  const errors: QuerySyntaxError[] = [];
+  const clauses = tokenize(query, errors).map(token => {
+    const match = token.quoted ? null : token.source.match(FIELD_REGEX);
+    const field = match?.[1].toLowerCase() ?? '';
+    if (!match || !isQueryField(field)) return { token, filters: null };
+
+    const value = match[2];
+    const result: ClauseResult = value
+      ? parseClause(field, value)
+      : { error: `${field}: needs a value` };
+
+    if ('error' in result) {
+      errors.push({ message: result.error, start: token.start, end: token.end });
+      return { token, filters: null, invalid: true };
+    }
+    return { token, filters: result.filters };
+  });
+
+  return { clauses, errors: errors.sort((a, b) => a.start - b.start) };
+}
+
+/**
+ * Parse a query into filters and free text. Later clauses for the same
+ * filter win; invalid clauses are left out of both.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const { clauses, errors } = parseTokens(query);
+  const filters: Mutable<SearchFilters> = {};
+  const text: string[] = [];
+
+  clauses.forEach(clause => {
+    if (clause.filters) {
+      Object.assign(filters, clause.filters);
+    } else if (!('invalid' in clause)) {
+      text.push(clause.token.quoted ? unquote(clause.token.source) : clause.token.source);
+    }
+  });
+
+  return { filters, text: text.join(' '), errors };
+}
+
+function formatNumericRange(field: string, range: NumericRange | undefined): string | null {
+  if (!range || (range.min === undefined && range.max === undefined)) return null;
+  if (range.min !== undefined && range.max !== undefined) {
+    return range.min === range.max ? `${field}:${range.min}` : `${field}:${range.min}${RANGE_SEPARATOR}${range.max}`;
+  }
+  return range.min !== undefined ? `${field}:>=${range.min}` : `${field}:<=${range.max}`;
+}
+
+function formatDateRange(field: string, range: DateRange | undefined): string | null {
+  const start = range?.start?.slice(0, 10);
+  const end = range?.end?.slice(0, 10);
+  if (!start && !end) return null;
+  if (start && end) return start === end ? `${field}:${start}` : `${field}:${start}${RANGE_SEPARATOR}${end}`;
+  return start ? `${field}:>=${start}` : `${field}:<=${end}`;
+}
+
+/**
+ * Write filters as query clauses, in field order
+ */
+export function formatSearchFilters(filters: SearchFilters): string {
+  const flag = (value: boolean) => (value ? 'yes' : 'no');
+  const clauses = [
+    filters.dnsStatus && `${QUERY_FIELDS.DNS}:${filters.dnsStatus}`,
+    filters.httpStatus && `${QUERY_FIELDS.HTTP}:${filters.httpStatus}`,
+    formatNumericRange(QUERY_FIELDS.HTTP, filters.httpCode),
+    filters.whoisStatus && `${QUERY_FIELDS.WHOIS}:${filters.whoisStatus}`,
+    filters.hasAnalytics !== undefined && `${QUERY_FIELDS.ANALYTICS}:${flag(filters.hasAnalytics)}`,
+    filters.areaKind && `${QUERY_FIELDS.KIND}:${filters.areaKind}`,
+    formatNumericRange(QUERY_FIELDS.LENGTH, filters.domainLength),
+    formatDateRange(QUERY_FIELDS.REGISTERED, filters.dateRange),
+    filters.hasNameservers !== undefined && `${QUERY_FIELDS.NAMESERVER}:${flag(filters.hasNameservers)}`,
+    filters.nameserver && `${QUERY_FIELDS.NAMESERVER}:${filters.nameserver}`,
+    filters.tld && `${QUERY_FIELDS.TLD}:${filters.tld}`,
+    formatNumericRange(QUERY_FIELDS.SIZE, filters.pixelSize),
+    filters.searchInTitle && `${QUERY_FIELDS.IN}:title`
+  ];
+
+  return clauses.filter(Boolean).join(' ');
+}
+
+/**
+ * Replace the clauses of a query with `filters`, keeping the free text and
+ * any invalid clauses as they were typed. Parsing the result gives `filters`
+ * back, so filter controls and the search box stay in step.
+ */
+export function rewriteSearchQuery(query: string, filters: SearchFilters): string {
+  const rest = parseTokens(query).clauses
+    .filter(clause => !clause.filters)
+    .map(clause => clause.token.source);
+
+  return [formatSearchFilters(filters), ...rest].filter(Boolean).join(' ');
+}
@@ -0,0 +1,115 @@
+/**
+ * Main-thread side of the search worker
+ *
+ * Only the latest search matters: starting a search or calling `cancel`
+ * settles the previous one with null and tells the worker to drop it, and
+ * replies for older searches are ignored. Where module workers are not
+ * available, or the worker fails to start, the engine runs on the main
+ * thread behind the same interface.
+ */
+
+import { AreaData, SearchRequest, SearchResponse, SearchWorkerRequest, SearchWorkerResponse } from '../types';
+import { SearchEngine, createSearchEngine } from './searchEngine';
+
+export interface SearchClient {
+  /** Resolves with null when a newer search or `cancel` supersedes this one */
+  search: (request: SearchRequest) => Promise<SearchResponse | null>;
+  cancel: () => void;
+  dispose: () => void;
+}
+
+interface ActiveSearch {
+  readonly id: number;
+  readonly request: SearchRequest;
+  readonly resolve: (response: SearchResponse | null) => void;
+  readonly reject: (error: Error) => void;
+}
+
+function startWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('../workers/searchWorker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn('Search worker unavailable, searching on the main thread:', error);
+    return null;
+  }
+}
+
+export function createSearchClient(areas: readonly AreaData[]): SearchClient {
+  let worker = startWorker();
+  let inlineEngine: SearchEngine | null = null;
+  let active: ActiveSearch | null = null;
+  let nextId = 1;
+
+  const post = (message: SearchWorkerRequest) => worker?.postMessage(message);
+
+  // Same one-task delay as the worker so fast typing only runs the last search
+  const runInline = (search: ActiveSearch) => {
+    setTimeout(() => {
+      if (active !== search) return;
+      active = null;
+      try {
+        inlineEngine ??= createSearchEngine(areas);
+        search.resolve(inlineEngine.search(search.request));
+      } catch (error) {
+        search.reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    }, 0);
+  };
+
+  const supersede = () => {
+    if (!active) return;
+    post({ type: 'cancel', id: active.id });
+    active.resolve(null);
+    active = null;
+  };
+
+  if (worker) {
+    worker.addEventListener('message', (event: MessageEvent<SearchWorkerResponse>) => {
+      const message = event.data;
+      if (!active || message.id !== active.id) return;
+
+      const search = active;
+      active = null;
+      if (message.type === 'results') {
+        search.resolve(message.response);
+      } else if (message.type === 'cancelled') {
+        search.resolve(null);
+      } else {
+        search.reject(new Error(message.message));
+      }
+    });
+
+    // A worker that fails to load leaves searches unanswered; finish them here instead
+    worker.addEventListener('error', (event: ErrorEvent) => {
+      console.warn('Search worker failed, searching on the main thread:', event.message);
+      event.preventDefault();
+      worker?.terminate();
+      worker = null;
+      if (active) runInline(active);
+    });
+
+    post({ type: 'init', areas });
+  }
+
+  return {
+    search: (request: SearchRequest) => {
+      supersede();
+      return new Promise<SearchResponse | null>((resolve, reject) => {
+        const search = { id: nextId++, request, resolve, reject };
+        active = search;
+        if (worker) {
+          post({ type: 'search', id: search.id, request });
+        } else {
+          runInline(search);
+        }
+      });
+    },
+    cancel: supersede,
+    dispose: () => {
+      supersede();
+      worker?.terminate();
+      worker = null;
+    }
+  };
+}
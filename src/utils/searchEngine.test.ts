@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createSearchEngine } from './searchEngine';
+import { AreaData, DomainAnalytics, SearchFilters } from '../types';
+
+const area = (id: number, domain: string, title: string, analytics: Partial<DomainAnalytics> | null = null): AreaData => ({
+  id,
+  domain,
+  title,
+  href: `http://${domain}`,
+  kind: 'domain',
+  coordinates: { x: id * 10, y: 0, width: 10, height: 10 },
+  rawCoords: [id * 10, 0, id * 10 + 10, 10],
+  analytics: analytics && {
+    domain,
+    dns_status: 'NOERROR',
+    http_status: 200,
+    whois_status: 'registered',
+    analyzed_at: '2025-11-13T12:00:00Z',
+    ...analytics
+  },
+  hasAnalytics: analytics !== null,
+  analyticsMatch: analytics
+    ? { status: 'matched', strategy: 'normalized', reportDomain: domain }
+    : { status: 'unmatched', reason: 'not_in_report', detail: '' }
+});
+
+const engine = createSearchEngine([
+  area(1, 'pandasoftware.com', 'Panda Antivirus', { registered_at: '1996-12-03T05:00:00+00:00' }),
+  area(2, 'early.com', 'Early', { registered_at: '1996-12-02T23:59:59+00:00' }),
+  area(3, 'late.com', 'Late', { registered_at: '1996-12-04T00:00:00+00:00' }),
+  area(4, 'undated.com', 'No date', {})
+]);
+
+const search = (filters: SearchFilters, text = '') =>
+  engine.search({ text, filters, sort: [] }).areaIds;
+
+describe('createSearchEngine', () => {
+  it('includes every timestamp on the days that bound a date range', () => {
+    assert.deepEqual(search({ dateRange: { start: '1996-12-03', end: '1996-12-03' } }), [1]);
+    assert.deepEqual(search({ dateRange: { end: '1996-12-03' } }), [1, 2]);
+    assert.deepEqual(search({ dateRange: { start: '1996-12-03' } }), [1, 3]);
+  });
+
+  it('matches only titles with searchInTitle', () => {
+    assert.deepEqual(search({}, 'panda'), [1]);
+    assert.deepEqual(search({ searchInTitle: true }, 'pandasoftware'), []);
+    assert.deepEqual(search({ searchInTitle: true }, 'antivirus'), [1]);
+    // Single characters are matched as prefixes
+    assert.deepEqual(search({}, 'u'), [4]);
+    assert.deepEqual(search({ searchInTitle: true }, 'u'), []);
+
+    const { matches } = engine.search({ text: 'n', filters: { searchInTitle: true }, sort: [] });
+    assert.deepEqual(matches, { 4: { score: null, domain: [], title: [[0, 0]] } });
+  });
+});
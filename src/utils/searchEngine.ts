@@ -0,0 +1,268 @@
+/**
+ * Search and aggregation engine
+ *
+ * Fuzzy text search, filters, sorting and facet counts over the loaded
+ * areas. It has no DOM or store dependencies so the same code runs in the
+ * search worker (workers/searchWorker.ts) and, where workers are not
+ * available, on the main thread (see searchClient).
+ */
+
+import Fuse, { FuseResult } from 'fuse.js';
+import {
+  AreaData,
+  AreaKind,
+  HTTPStatusClass,
+  MatchRange,
+  SearchFacets,
+  SearchFilters,
+  SearchMatch,
+  SearchRequest,
+  SearchResponse
+} from '../types';
+import { AREA_KIND, SEARCH_CONSTANTS } from '../constants';
+import { analyticsUtils, domainUtils } from './index';
+import { sortAreas } from './sorting';
+
+export interface SearchEngine {
+  search: (request: SearchRequest) => SearchResponse;
+}
+
+// `*` matches any run of characters and `?` a single one; case-insensitive
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+// Optimized helper function to apply filters with better performance
+function applyFilters(areas: readonly AreaData[], filters: SearchFilters): readonly AreaData[] {
+  // Early return if no filters are applied
+  const filterKeys = Object.keys(filters);
+  const hasFilters = filterKeys.length > 0 &&
+    Object.values(filters).some(value => value !== undefined && value !== null);
+  
+  if (!hasFilters) {
+    return areas;
+  }
+
+  // Pre-compile filter conditions for better performance
+  const filterConditions: Array<(area: AreaData) => boolean> = [];
+
+  // Basic filters
+  if (filters.dnsStatus !== undefined) {
+    filterConditions.push(area => area.analytics?.dns_status === filters.dnsStatus);
+  }
+
+  if (filters.httpStatus !== undefined) {
+    filterConditions.push(area =>
+      area.analytics !== null &&
+      analyticsUtils.getHttpStatusClass(area.analytics.http_status) === filters.httpStatus
+    );
+  }
+
+  if (filters.httpCode && (filters.httpCode.min !== undefined || filters.httpCode.max !== undefined)) {
+    const { min, max } = filters.httpCode;
+    filterConditions.push(area => {
+      if (!area.analytics) return false;
+      const code = area.analytics.http_status;
+      return (min === undefined || code >= min) && (max === undefined || code <= max);
+    });
+  }
+
+  if (filters.whoisStatus !== undefined) {
+    filterConditions.push(area => area.analytics?.whois_status === filters.whoisStatus);
+  }
+
+  if (filters.hasAnalytics !== undefined) {
+    filterConditions.push(area => area.hasAnalytics === filters.hasAnalytics);
+  }
+
+  if (filters.areaKind !== undefined) {
+    filterConditions.push(area => area.kind === filters.areaKind);
+  }
+
+  // Domain length filter
+  if (filters.domainLength && (filters.domainLength.min !== undefined || filters.domainLength.max !== undefined)) {
+    const { min, max } = filters.domainLength;
+    filterConditions.push(area => {
+      const domainLength = area.domain.length;
+      return (min === undefined || domainLength >= min) &&
+             (max === undefined || domainLength <= max);
+    });
+  }
+
+  // Date range filter; both bounds are whole days, so compare the day each
+  // domain was registered on rather than the exact timestamp
+  if (filters.dateRange && (filters.dateRange.start || filters.dateRange.end)) {
+    const startDay = filters.dateRange.start?.slice(0, 10);
+    const endDay = filters.dateRange.end?.slice(0, 10);
+
+    filterConditions.push(area => {
+      if (!area.analytics?.registered_at) return false;
+      const registrationDay = area.analytics.registered_at.slice(0, 10);
+      return (!startDay || registrationDay >= startDay) &&
+             (!endDay || registrationDay <= endDay);
+    });
+  }
+
+  // Nameservers filter
+  if (filters.hasNameservers !== undefined) {
+    const { hasNameservers } = filters;
+    filterConditions.push(area => {
+      const areaHasNameservers = Boolean(area.analytics?.nameservers && area.analytics.nameservers.length > 0);
+      return areaHasNameservers === hasNameservers;
+    });
+  }
+
+  // Public suffix filter; `com` also matches suffixes ending in `.com`
+  if (filters.tld) {
+    const tld = filters.tld;
+    filterConditions.push(area => {
+      const suffix = domainUtils.getTLD(area.domain);
+      return suffix === tld || suffix.endsWith(`.${tld}`);
+    });
+  }
+
+  // Nameserver pattern filter; a block matches when any of its nameservers does
+  if (filters.nameserver) {
+    const pattern = globToRegExp(filters.nameserver);
+    filterConditions.push(area => area.analytics?.nameservers?.some(ns => pattern.test(ns)) ?? false);
+  }
+
+  // Block size filter, in pixels
+  if (filters.pixelSize && (filters.pixelSize.min !== undefined || filters.pixelSize.max !== undefined)) {
+    const { min, max } = filters.pixelSize;
+    filterConditions.push(area => {
+      const pixels = area.coordinates.width * area.coordinates.height;
+      return (min === undefined || pixels >= min) && (max === undefined || pixels <= max);
+    });
+  }
+
+  // Apply all filter conditions efficiently
+  return areas.filter(area => filterConditions.every(condition => condition(area)));
+}
+
+// Fuse reports matches per key; keep the character ranges for domain and title
+function toSearchMatch(result: FuseResult<AreaData>): SearchMatch {
+  const rangesFor = (key: keyof AreaData) =>
+    result.matches?.filter(match => match.key === key).flatMap(match => match.indices) ?? [];
+
+  return {
+    score: result.score ?? null,
+    domain: rangesFor('domain'),
+    title: rangesFor('title')
+  };
+}
+
+/**
+ * Count blocks by kind and, for domain blocks with analytics, by status
+ */
+export function computeFacets(areas: readonly AreaData[]): SearchFacets {
+  const areaKind: Partial<Record<AreaKind, number>> = {};
+  const dnsStatus: Record<string, number> = {};
+  const httpStatus: Partial<Record<HTTPStatusClass, number>> = {};
+  const whoisStatus: Record<string, number> = {};
+  let domains = 0;
+  let withAnalytics = 0;
+
+  areas.forEach(area => {
+    areaKind[area.kind] = (areaKind[area.kind] ?? 0) + 1;
+    if (area.kind !== AREA_KIND.DOMAIN) return;
+    domains++;
+
+    const { analytics } = area;
+    if (!area.hasAnalytics || !analytics) return;
+    withAnalytics++;
+
+    const statusClass = analyticsUtils.getHttpStatusClass(analytics.http_status);
+    dnsStatus[analytics.dns_status] = (dnsStatus[analytics.dns_status] ?? 0) + 1;
+    httpStatus[statusClass] = (httpStatus[statusClass] ?? 0) + 1;
+    whoisStatus[analytics.whois_status] = (whoisStatus[analytics.whois_status] ?? 0) + 1;
+  });
+
+  return { total: areas.length, areaKind, domains, withAnalytics, dnsStatus, httpStatus, whoisStatus };
+}
+
+/**
+ * Build the Fuse index once; each search matches the free text, applies the
+ * filters and sort, and counts facets over all matches before the limit
+ */
+export function createSearchEngine(areas: readonly AreaData[]): SearchEngine {
+  const fuseOptions = {
+    threshold: SEARCH_CONSTANTS.FUSE_THRESHOLD,
+    includeScore: true,
+    includeMatches: true,
+    minMatchCharLength: SEARCH_CONSTANTS.MIN_MATCH_CHAR_LENGTH,
+    shouldSort: true,
+    findAllMatches: false,
+    location: 0,
+    distance: 100,
+    // Performance optimization: limit search depth
+    ignoreLocation: true,
+    ignoreFieldNorm: false
+  };
+  const fuse = new Fuse(areas, {
+    ...fuseOptions,
+    keys: [
+      { name: 'domain', weight: 0.7 },
+      { name: 'title', weight: 0.3 }
+    ]
+  });
+  // `in:title` searches titles only
+  const titleFuse = new Fuse(areas, { ...fuseOptions, keys: ['title'] });
+
+  // Matching blocks in relevance order and how each matched the text
+  const matchText = (
+    text: string,
+    titleOnly: boolean
+  ): { areas: readonly AreaData[]; matches: Map<number, SearchMatch> } => {
+    const matches = new Map<number, SearchMatch>();
+
+    if (text.length >= SEARCH_CONSTANTS.MIN_MATCH_CHAR_LENGTH) {
+      const found = (titleOnly ? titleFuse : fuse).search(text).map(result => {
+        matches.set(result.item.id, toSearchMatch(result));
+        return result.item;
+      });
+      return { areas: found, matches };
+    }
+    if (text.length > 0) {
+      // For very short queries, do exact prefix matching for better performance
+      const prefix = text.toLowerCase();
+      const found = areas.filter(area =>
+        (!titleOnly && area.domain.toLowerCase().startsWith(prefix)) ||
+        area.title.toLowerCase().startsWith(prefix)
+      );
+      const prefixRanges = (value: string): MatchRange[] =>
+        value.toLowerCase().startsWith(prefix) ? [[0, prefix.length - 1]] : [];
+      found.forEach(area => matches.set(area.id, {
+        score: null,
+        domain: titleOnly ? [] : prefixRanges(area.domain),
+        title: prefixRanges(area.title)
+      }));
+      return { areas: found, matches };
+    }
+    return { areas, matches };
+  };
+
+  return {
+    search: ({ text, filters, sort }) => {
+      const { areas: found, matches } = matchText(text.trim(), filters.searchInTitle === true);
+      const filtered = applyFilters(found, filters);
+      const results = sortAreas(filtered, sort).slice(0, SEARCH_CONSTANTS.LIMIT);
+
+      const resultMatches: Record<number, SearchMatch> = {};
+      results.forEach(area => {
+        const match = matches.get(area.id);
+        if (match) resultMatches[area.id] = match;
+      });
+
+      return {
+        areaIds: results.map(area => area.id),
+        matches: resultMatches,
+        facets: computeFacets(filtered)
+      };
+    }
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { sortAreas } from './sorting';
+import { AreaData, DomainAnalytics, SortKey } from '../types';
+
+const area = (id: number, domain: string, title: string, analytics: Partial<DomainAnalytics> | null = null): AreaData => ({
+  id,
+  domain,
+  title,
+  href: `http://${domain}`,
+  kind: 'domain',
+  coordinates: { x: id * 10, y: 0, width: 10, height: 10 },
+  rawCoords: [id * 10, 0, id * 10 + 10, 10],
+  analytics: analytics && {
+    domain,
+    dns_status: 'NOERROR',
+    http_status: 200,
+    whois_status: 'registered',
+    analyzed_at: '2025-11-13T12:00:00Z',
+    ...analytics
+  },
+  hasAnalytics: analytics !== null,
+  analyticsMatch: analytics
+    ? { status: 'matched', strategy: 'normalized', reportDomain: domain }
+    : { status: 'unmatched', reason: 'not_in_report', detail: '' }
+});
+
+const ids = (areas: readonly AreaData[]) => areas.map(({ id }) => id);
+
+const AREAS: readonly AreaData[] = [
+  area(1, 'b.com', 'Casino', { http_status: 404, registered_at: '2003-05-01' }),
+  area(2, 'a.com', ''),
+  area(3, 'c.com', 'casino', { http_status: 200 }),
+  area(4, 'B.com', 'Art', { http_status: 404, registered_at: '1999-01-01' }),
+  area(5, 'd.com', 'Art')
+];
+
+describe('sortAreas', () => {
+  it('keeps the incoming order without keys and does not sort in place', () => {
+    const sorted = sortAreas(AREAS, []);
+    assert.deepEqual(ids(sorted), [1, 2, 3, 4, 5]);
+    assert.notEqual(sorted, AREAS);
+
+    sortAreas(AREAS, [{ field: 'domain', direction: 'desc' }]);
+    assert.deepEqual(ids(AREAS), [1, 2, 3, 4, 5]);
+  });
+
+  it('compares case-insensitively and keeps ties in incoming order', () => {
+    assert.deepEqual(ids(sortAreas(AREAS, [{ field: 'domain', direction: 'asc' }])), [2, 1, 4, 3, 5]);
+    assert.deepEqual(ids(sortAreas(AREAS, [{ field: 'domain', direction: 'desc' }])), [5, 3, 1, 4, 2]);
+  });
+
+  it('puts missing values last in both directions', () => {
+    assert.deepEqual(ids(sortAreas(AREAS, [{ field: 'registered', direction: 'asc' }])), [4, 1, 2, 3, 5]);
+    assert.deepEqual(ids(sortAreas(AREAS, [{ field: 'registered', direction: 'desc' }])), [1, 4, 2, 3, 5]);
+    // An empty title counts as missing
+    assert.deepEqual(ids(sortAreas(AREAS, [{ field: 'title', direction: 'desc' }])), [1, 3, 4, 5, 2]);
+  });
+
+  it('breaks ties with each following key in turn', () => {
+    const keys: SortKey[] = [
+      { field: 'http_status', direction: 'desc' },
+      { field: 'title', direction: 'asc' },
+      { field: 'domain', direction: 'desc' }
+    ];
+    assert.deepEqual(ids(sortAreas(AREAS, keys)), [4, 1, 3, 5, 2]);
+  });
+});
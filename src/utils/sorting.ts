@@ -0,0 +1,64 @@
+/**
+ * Multi-key sorting of search results
+ *
+ * The store sorts results once and the result list, the map highlights and
+ * the exports all read that order. Keys are applied in turn, each breaking
+ * ties in the one before, and blocks that are still tied keep their
+ * incoming order (relevance for a text search). Blocks without a value for
+ * a key, e.g. no analytics, sort after those with one in either direction.
+ */
+
+import { AreaData, SortField, SortKey } from '../types';
+import { analyticsUtils } from './index';
+
+type SortValue = string | number | null;
+
+const parseDate = (value: string | undefined): number | null => {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+};
+
+const SORT_VALUES: Record<SortField, (area: AreaData) => SortValue> = {
+  domain: area => area.domain.toLowerCase(),
+  title: area => area.title.trim().toLowerCase() || null,
+  registered: area => parseDate(area.analytics?.registered_at),
+  expiry: area => parseDate(area.analytics?.expiry_date),
+  pixel_size: area => area.coordinates.width * area.coordinates.height,
+  health_score: area => (area.analytics ? analyticsUtils.getDomainHealthScore(area.analytics) : null),
+  dns_status: area => area.analytics?.dns_status ?? null,
+  http_status: area => area.analytics?.http_status ?? null,
+  whois_status: area => area.analytics?.whois_status ?? null
+};
+
+function compareValues(a: SortValue, b: SortValue, descending: boolean): number {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  const order = a < b ? -1 : 1;
+  return descending ? -order : order;
+}
+
+/**
+ * Sort a copy of `areas` by `keys`; with no keys the order is unchanged
+ */
+export function sortAreas(areas: readonly AreaData[], keys: readonly SortKey[]): AreaData[] {
+  if (keys.length === 0) return [...areas];
+
+  // Each value is computed once per block rather than once per comparison
+  const rows = areas.map((area, index) => ({
+    area,
+    index,
+    values: keys.map(key => SORT_VALUES[key.field](area))
+  }));
+
+  rows.sort((a, b) => {
+    for (let i = 0; i < keys.length; i++) {
+      const order = compareValues(a.values[i], b.values[i], keys[i].direction === 'desc');
+      if (order !== 0) return order;
+    }
+    return a.index - b.index;
+  });
+
+  return rows.map(row => row.area);
+}
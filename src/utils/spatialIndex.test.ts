@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createSpatialIndex, SpatialEntry } from './spatialIndex';
+import { AreaCoordinates } from '../types';
+
+const entry = (item: number, bounds: AreaCoordinates): SpatialEntry<number> => ({ item, bounds });
+
+// Deterministic pseudo-random blocks, so failures reproduce
+function randomEntries(count: number, seed: number): SpatialEntry<number>[] {
+  let state = seed;
+  const next = (max: number) => {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    return state % max;
+  };
+  return Array.from({ length: count }, (_, item) =>
+    entry(item, { x: next(990), y: next(990), width: 1 + next(40), height: 1 + next(40) })
+  );
+}
+
+const distanceTo = ({ x, y, width, height }: AreaCoordinates, px: number, py: number) =>
+  Math.hypot(Math.max(x - px, 0, px - (x + width)), Math.max(y - py, 0, py - (y + height)));
+
+describe('createSpatialIndex', () => {
+  const index = createSpatialIndex([
+    entry(0, { x: 0, y: 0, width: 20, height: 20 }),
+    entry(1, { x: 10, y: 10, width: 20, height: 20 }),
+    entry(2, { x: 30, y: 10, width: 10, height: 10 }),
+    entry(3, { x: 500, y: 500, width: 100, height: 100 })
+  ]);
+
+  it('finds the rectangles containing a point, right and bottom edges excluded', () => {
+    assert.deepEqual(index.pointQuery(15, 15), [0, 1]);
+    assert.deepEqual(index.pointQuery(30, 15), [2]);
+    assert.deepEqual(index.pointQuery(599, 599), [3]);
+    assert.deepEqual(index.pointQuery(600, 600), []);
+    assert.deepEqual(index.pointQuery(-1, 5), []);
+  });
+
+  it('finds intersecting rectangles but not ones that only touch', () => {
+    assert.deepEqual(index.rectQuery({ x: 15, y: 5, width: 20, height: 10 }), [0, 1, 2]);
+    assert.deepEqual(index.rectQuery({ x: 40, y: 10, width: 10, height: 10 }), []);
+    assert.deepEqual(index.rectQuery({ x: 0, y: 0, width: 1000, height: 1000 }), [0, 1, 2, 3]);
+  });
+
+  it('lists overlapping pairs once', () => {
+    assert.deepEqual(index.overlaps(), [[0, 1]]);
+  });
+
+  it('returns the nearest items first, 0 inside a rectangle', () => {
+    assert.deepEqual(index.nearest(35, 15, 2), [
+      { item: 2, distance: 0 },
+      { item: 1, distance: 5 }
+    ]);
+    assert.deepEqual(index.nearest(700, 550), [{ item: 3, distance: 100 }]);
+    assert.deepEqual(index.nearest(0, 0, 0), []);
+    assert.equal(index.nearest(0, 0, 10).length, 4);
+  });
+
+  it('stops the ring search only once nothing further out can be closer', () => {
+    const entries = randomEntries(300, 42);
+    const randomIndex = createSpatialIndex(entries);
+    const queries: [number, number][] = [[0, 0], [999, 999], [500, 3], [250, 750], [-40, 420], [1200, 50]];
+
+    queries.forEach(([x, y]) => {
+      const expected = entries
+        .map(({ item, bounds }) => ({ item, distance: distanceTo(bounds, x, y) }))
+        .sort((a, b) => a.distance - b.distance || a.item - b.item)
+        .slice(0, 5);
+      assert.deepEqual(randomIndex.nearest(x, y, 5), expected, `nearest to ${x},${y}`);
+    });
+  });
+
+  it('finds far-away items from an empty part of the image', () => {
+    const sparse = createSpatialIndex([entry(0, { x: 990, y: 990, width: 10, height: 10 })], 50);
+    assert.deepEqual(sparse.nearest(0, 0), [{ item: 0, distance: Math.hypot(990, 990) }]);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Uniform-grid spatial index over the 1000×1000 image
+ *
+ * Blocks on the homepage are small and evenly spread, so a fixed grid beats a
+ * tree here: each entry is stored in every cell its rectangle touches and a
+ * point lookup only scans one cell. All queries return items in insertion
+ * order unless noted otherwise.
+ */
+
+import { AreaCoordinates } from '../types';
+import { IMAGE_CONSTANTS } from '../constants';
+import { coordinateUtils } from './index';
+
+/** An item placed on the image */
+export interface SpatialEntry<T> {
+  readonly bounds: AreaCoordinates;
+  readonly item: T;
+}
+
+/** A query result paired with its distance from the query point */
+export interface NearestResult<T> {
+  readonly item: T;
+  readonly distance: number;
+}
+
+export interface SpatialIndex<T> {
+  readonly size: number;
+  /** Items whose rectangle contains the point */
+  pointQuery: (x: number, y: number) => T[];
+  /** Items whose rectangle intersects `rect`; rectangles that only touch do not count */
+  rectQuery: (rect: AreaCoordinates) => T[];
+  /** Up to `k` items closest to the point, nearest first; 0 means the point is inside */
+  nearest: (x: number, y: number, k?: number) => NearestResult<T>[];
+  /** Every pair of items whose rectangles overlap */
+  overlaps: () => [T, T][];
+}
+
+const DEFAULT_CELL_SIZE = 20;
+
+const containsPoint = (bounds: AreaCoordinates, x: number, y: number): boolean =>
+  x >= bounds.x && x < bounds.x + bounds.width && y >= bounds.y && y < bounds.y + bounds.height;
+
+// Distance from a point to the closest edge of a rectangle, 0 when inside
+const distanceToRect = (bounds: AreaCoordinates, x: number, y: number): number => {
+  const dx = Math.max(bounds.x - x, 0, x - (bounds.x + bounds.width));
+  const dy = Math.max(bounds.y - y, 0, y - (bounds.y + bounds.height));
+  return Math.hypot(dx, dy);
+};
+
+/**
+ * Build an index; entries outside the image are clipped to its edge cells
+ */
+export function createSpatialIndex<T>(
+  entries: readonly SpatialEntry<T>[],
+  cellSize = DEFAULT_CELL_SIZE
+): SpatialIndex<T> {
+  const columns = Math.ceil(IMAGE_CONSTANTS.ORIGINAL_WIDTH / cellSize);
+  const rows = Math.ceil(IMAGE_CONSTANTS.ORIGINAL_HEIGHT / cellSize);
+  // Cells hold entry positions so queries can return results in insertion order
+  const cells: number[][] = Array.from({ length: columns * rows }, () => []);
+
+  const toColumn = (x: number) => Math.min(Math.max(Math.floor(x / cellSize), 0), columns - 1);
+  const toRow = (y: number) => Math.min(Math.max(Math.floor(y / cellSize), 0), rows - 1);
+
+  const forEachCell = (bounds: AreaCoordinates, callback: (cell: number[]) => void) => {
+    const lastColumn = toColumn(bounds.x + Math.max(bounds.width, 1) - 1);
+    const lastRow = toRow(bounds.y + Math.max(bounds.height, 1) - 1);
+
+    for (let row = toRow(bounds.y); row <= lastRow; row++) {
+      for (let column = toColumn(bounds.x); column <= lastColumn; column++) {
+        callback(cells[row * columns + column]);
+      }
+    }
+  };
+
+  // Entries sharing a cell with `bounds`, once each and in insertion order
+  const candidatesFor = (bounds: AreaCoordinates): number[] => {
+    const positions = new Set<number>();
+    forEachCell(bounds, cell => cell.forEach(position => positions.add(position)));
+    return Array.from(positions).sort((a, b) => a - b);
+  };
+
+  entries.forEach(({ bounds }, position) => {
+    forEachCell(bounds, cell => cell.push(position));
+  });
+
+  return {
+    size: entries.length,
+
+    pointQuery: (x: number, y: number): T[] => {
+      if (x < 0 || y < 0 || x >= columns * cellSize || y >= rows * cellSize) return [];
+
+      return cells[toRow(y) * columns + toColumn(x)]
+        .filter(position => containsPoint(entries[position].bounds, x, y))
+        .map(position => entries[position].item);
+    },
+
+    rectQuery: (rect: AreaCoordinates): T[] => {
+      return candidatesFor(rect)
+        .filter(position => coordinateUtils.rectanglesOverlap(entries[position].bounds, rect))
+        .map(position => entries[position].item);
+    },
+
+    nearest: (x: number, y: number, k = 1): NearestResult<T>[] => {
+      if (k <= 0 || entries.length === 0) return [];
+
+      const startColumn = toColumn(x);
+      const startRow = toRow(y);
+      const maxRing = Math.max(columns, rows);
+      const seen = new Set<number>();
+      const found: { position: number; distance: number }[] = [];
+
+      // Search rings of cells outwards; anything beyond ring r is at least r cells away
+      for (let ring = 0; ring <= maxRing; ring++) {
+        for (let row = startRow - ring; row <= startRow + ring; row++) {
+          if (row < 0 || row >= rows) continue;
+          const onEdgeRow = row === startRow - ring || row === startRow + ring;
+          const step = onEdgeRow ? 1 : ring * 2 || 1;
+
+          for (let column = startColumn - ring; column <= startColumn + ring; column += step) {
+            if (column < 0 || column >= columns) continue;
+            cells[row * columns + column].forEach(position => {
+              if (seen.has(position)) return;
+              seen.add(position);
+              found.push({ position, distance: distanceToRect(entries[position].bounds, x, y) });
+            });
+          }
+        }
+
+        found.sort((a, b) => a.distance - b.distance || a.position - b.position);
+        if (found.length >= k && found[k - 1].distance <= ring * cellSize) break;
+      }
+
+      return found.slice(0, k).map(({ position, distance }) => ({ item: entries[position].item, distance }));
+    },
+
+    overlaps: (): [T, T][] => {
+      const pairs: [T, T][] = [];
+
+      entries.forEach(({ bounds }, position) => {
+        candidatesFor(bounds).forEach(other => {
+          if (other > position && coordinateUtils.rectanglesOverlap(bounds, entries[other].bounds)) {
+            pairs.push([entries[position].item, entries[other].item]);
+          }
+        });
+      });
+      return pairs;
+    }
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseUrlState, serializeUrlState, UrlState } from './urlState';
+import { parseSearchQuery, rewriteSearchQuery } from './queryLanguage';
+
+describe('parseUrlState', () => {
+  it('reads filters, selection and viewport', () => {
+    const state = parseUrlState('?q=casino&dns=NXDOMAIN&len=5..&reg=..2009-12-31&tld=co.uk&nsname=*awsdns*&sel=example.com&view=2,500,400');
+    assert.deepEqual(state, {
+      query: 'casino',
+      filters: {
+        dnsStatus: 'NXDOMAIN',
+        domainLength: { min: 5, max: undefined },
+        dateRange: { start: undefined, end: '2009-12-31' },
+        tld: 'co.uk',
+        nameserver: '*awsdns*'
+      },
+      selectedDomain: 'example.com',
+      selectedAreaId: null,
+      viewport: { scale: 2, centerX: 500, centerY: 400 }
+    });
+  });
+
+  it('drops values the query language cannot read back', () => {
+    const { filters } = parseUrlState(
+      `?${new URLSearchParams({ dns: 'NX dns:SERVFAIL', tld: 'com in:title', nsname: '"x', http: 'teapot', len: '..' })}`
+    );
+    assert.deepEqual(filters, {});
+  });
+
+  it('keeps injected-looking values out of the rewritten query', () => {
+    const { query, filters } = parseUrlState('?q=pixels&tld=com%20kind:pending&nsname=ns1.example.com');
+    const rewritten = parseSearchQuery(rewriteSearchQuery(query, filters));
+    assert.deepEqual(rewritten.filters, { nameserver: 'ns1.example.com' });
+    assert.equal(rewritten.text, 'pixels');
+    assert.deepEqual(rewritten.errors, []);
+  });
+});
+
+describe('serializeUrlState', () => {
+  const state: UrlState = {
+    query: 'million',
+    filters: { httpCode: { min: 400 }, hasAnalytics: true, tld: 'com' },
+    selectedDomain: null,
+    selectedAreaId: 812,
+    viewport: { scale: 1.5, centerX: 320.4, centerY: 99.6 }
+  };
+
+  it('round-trips through parseUrlState', () => {
+    assert.deepEqual(parseUrlState(serializeUrlState(state)), {
+      ...state,
+      filters: { httpCode: { min: 400, max: undefined }, hasAnalytics: true, tld: 'com' },
+      viewport: { scale: 1.5, centerX: 320, centerY: 100 }
+    });
+  });
+
+  it('keeps parameters it does not own and writes nothing for empty state', () => {
+    const empty: UrlState = { query: ' ', filters: {}, selectedDomain: null, selectedAreaId: null, viewport: null };
+    assert.equal(serializeUrlState(empty, '?utm_source=x&dns=NXDOMAIN'), '?utm_source=x');
+    assert.equal(serializeUrlState(empty), '');
+  });
+});
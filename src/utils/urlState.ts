@@ -0,0 +1,206 @@
+/**
+ * Shareable app state in the query string
+ *
+ * The site is a static GitHub Pages deployment, so state lives in plain query
+ * parameters on the index page, e.g.
+ * `?dns=NXDOMAIN&reg=..2009-12-31&sel=rentpixelads.com&view=1,420,380`.
+ * A selection covering all of a domain's blocks is written as `sel=<domain>`,
+ * a single block as `area=<id>`.
+ * Ranges use `start..end` with either side optional. Parameters that do not
+ * parse are dropped rather than reported, since links are hand-editable.
+ * Free-form values are checked against the query language's patterns, as
+ * filters are also written into the search box query.
+ * The search box query is written without its `field:value` clauses, which
+ * get their own parameters; clauses typed into `q` by hand still apply.
+ */
+
+import { AreaKind, HTTPStatusClass, MapViewport, SearchFilters, WHOISStatus } from '../types';
+import { AREA_KIND, HTTP_STATUS_CLASS, URL_PARAMS, WHOIS_STATUS } from '../constants';
+import { dateUtils, viewportUtils } from './index';
+import { parseDnsStatusValue, parseNameserverPattern, parseTldValue } from './queryLanguage';
+
+/** The slice of app state that is mirrored into the URL */
+export interface UrlState {
+  readonly query: string;
+  readonly filters: SearchFilters;
+  readonly selectedDomain: string | null;
+  readonly selectedAreaId: number | null;
+  readonly viewport: MapViewport | null;
+}
+
+type Mutable<T> = { -readonly [K in keyof T]: T[K] };
+
+const HTTP_CLASS_VALUES: readonly string[] = Object.values(HTTP_STATUS_CLASS);
+const WHOIS_VALUES: readonly string[] = Object.values(WHOIS_STATUS);
+const AREA_KIND_VALUES: readonly string[] = Object.values(AREA_KIND);
+const OWNED_PARAMS: readonly string[] = Object.values(URL_PARAMS);
+const RANGE_SEPARATOR = '..';
+
+const parseBoolean = (value: string | null): boolean | undefined => {
+  if (value === '1') return true;
+  if (value === '0') return false;
+  return undefined;
+};
+
+const formatBoolean = (value: boolean): string => (value ? '1' : '0');
+
+function parseRange(value: string | null): [string, string] | null {
+  if (!value || !value.includes(RANGE_SEPARATOR)) return null;
+  const [start, end] = value.split(RANGE_SEPARATOR, 2);
+  return [start, end];
+}
+
+const formatRange = (start: string | number | undefined, end: string | number | undefined): string =>
+  `${start ?? ''}${RANGE_SEPARATOR}${end ?? ''}`;
+
+function parseLength(value: string): number | undefined {
+  if (!/^\d+$/.test(value)) return undefined;
+  return Number(value);
+}
+
+function parseNumericRange(value: string | null): { min?: number; max?: number } | undefined {
+  const range = parseRange(value);
+  if (!range) return undefined;
+  const min = parseLength(range[0]);
+  const max = parseLength(range[1]);
+  return min === undefined && max === undefined ? undefined : { min, max };
+}
+
+function parseDateRange(value: string | null): SearchFilters['dateRange'] {
+  const range = parseRange(value);
+  if (!range) return undefined;
+  const [start, end] = range.map(date => (date && dateUtils.isValidDate(date) ? date : undefined));
+  return start === undefined && end === undefined ? undefined : { start, end };
+}
+
+function parseAreaId(value: string | null): number | null {
+  if (!value || !/^\d+$/.test(value)) return null;
+  return Number(value);
+}
+
+function parseViewport(value: string | null): MapViewport | null {
+  if (!value) return null;
+  const parts = value.split(',').map(Number);
+  if (parts.length !== 3 || parts.some(part => !Number.isFinite(part))) return null;
+
+  const [scale, centerX, centerY] = parts;
+  return viewportUtils.clampCenter({ scale: viewportUtils.clampScale(scale), centerX, centerY });
+}
+
+const formatViewport = (viewport: MapViewport): string =>
+  [
+    Number(viewport.scale.toFixed(2)),
+    Math.round(viewport.centerX),
+    Math.round(viewport.centerY)
+  ].join(',');
+
+/**
+ * Read the shareable state from a query string (with or without the leading "?")
+ */
+export function parseUrlState(search: string): UrlState {
+  const params = new URLSearchParams(search);
+  const filters: Mutable<SearchFilters> = {};
+
+  const dnsStatus = parseDnsStatusValue(params.get(URL_PARAMS.DNS_STATUS) ?? '');
+  if (dnsStatus) filters.dnsStatus = dnsStatus;
+
+  const httpStatus = params.get(URL_PARAMS.HTTP_STATUS);
+  if (httpStatus && HTTP_CLASS_VALUES.includes(httpStatus)) {
+    filters.httpStatus = httpStatus as HTTPStatusClass;
+  }
+
+  const whoisStatus = params.get(URL_PARAMS.WHOIS_STATUS);
+  if (whoisStatus && WHOIS_VALUES.includes(whoisStatus)) {
+    filters.whoisStatus = whoisStatus as WHOISStatus;
+  }
+
+  const hasAnalytics = parseBoolean(params.get(URL_PARAMS.HAS_ANALYTICS));
+  if (hasAnalytics !== undefined) filters.hasAnalytics = hasAnalytics;
+
+  const areaKind = params.get(URL_PARAMS.AREA_KIND);
+  if (areaKind && AREA_KIND_VALUES.includes(areaKind)) {
+    filters.areaKind = areaKind as AreaKind;
+  }
+
+  const domainLength = parseNumericRange(params.get(URL_PARAMS.DOMAIN_LENGTH));
+  if (domainLength) filters.domainLength = domainLength;
+
+  const dateRange = parseDateRange(params.get(URL_PARAMS.REGISTERED));
+  if (dateRange) filters.dateRange = dateRange;
+
+  const hasNameservers = parseBoolean(params.get(URL_PARAMS.HAS_NAMESERVERS));
+  if (hasNameservers !== undefined) filters.hasNameservers = hasNameservers;
+
+  const searchInTitle = parseBoolean(params.get(URL_PARAMS.SEARCH_IN_TITLE));
+  if (searchInTitle !== undefined) filters.searchInTitle = searchInTitle;
+
+  const httpCode = parseNumericRange(params.get(URL_PARAMS.HTTP_CODE));
+  if (httpCode) filters.httpCode = httpCode;
+
+  const tld = parseTldValue(params.get(URL_PARAMS.TLD) ?? '');
+  if (tld) filters.tld = tld;
+
+  const nameserver = parseNameserverPattern(params.get(URL_PARAMS.NAMESERVER) ?? '');
+  if (nameserver) filters.nameserver = nameserver;
+
+  const pixelSize = parseNumericRange(params.get(URL_PARAMS.PIXEL_SIZE));
+  if (pixelSize) filters.pixelSize = pixelSize;
+
+  return {
+    query: params.get(URL_PARAMS.QUERY) ?? '',
+    filters,
+    selectedDomain: params.get(URL_PARAMS.SELECTED) || null,
+    selectedAreaId: parseAreaId(params.get(URL_PARAMS.SELECTED_AREA)),
+    viewport: parseViewport(params.get(URL_PARAMS.VIEWPORT))
+  };
+}
+
+/**
+ * Write the shareable state into a query string. Parameters this module does
+ * not own are kept as they are; the result is "" when nothing remains.
+ */
+export function serializeUrlState(state: UrlState, currentSearch = ''): string {
+  const params = new URLSearchParams(currentSearch);
+  OWNED_PARAMS.forEach(param => params.delete(param));
+
+  const { query, filters, selectedDomain, selectedAreaId, viewport } = state;
+
+  if (query.trim()) params.set(URL_PARAMS.QUERY, query);
+  if (filters.dnsStatus) params.set(URL_PARAMS.DNS_STATUS, filters.dnsStatus);
+  if (filters.httpStatus) params.set(URL_PARAMS.HTTP_STATUS, filters.httpStatus);
+  if (filters.whoisStatus) params.set(URL_PARAMS.WHOIS_STATUS, filters.whoisStatus);
+  if (filters.hasAnalytics !== undefined) {
+    params.set(URL_PARAMS.HAS_ANALYTICS, formatBoolean(filters.hasAnalytics));
+  }
+  if (filters.areaKind) params.set(URL_PARAMS.AREA_KIND, filters.areaKind);
+  if (filters.domainLength && (filters.domainLength.min !== undefined || filters.domainLength.max !== undefined)) {
+    params.set(URL_PARAMS.DOMAIN_LENGTH, formatRange(filters.domainLength.min, filters.domainLength.max));
+  }
+  if (filters.dateRange && (filters.dateRange.start || filters.dateRange.end)) {
+    params.set(URL_PARAMS.REGISTERED, formatRange(filters.dateRange.start, filters.dateRange.end));
+  }
+  if (filters.hasNameservers !== undefined) {
+    params.set(URL_PARAMS.HAS_NAMESERVERS, formatBoolean(filters.hasNameservers));
+  }
+  if (filters.searchInTitle !== undefined) {
+    params.set(URL_PARAMS.SEARCH_IN_TITLE, formatBoolean(filters.searchInTitle));
+  }
+  if (filters.httpCode && (filters.httpCode.min !== undefined || filters.httpCode.max !== undefined)) {
+    params.set(URL_PARAMS.HTTP_CODE, formatRange(filters.httpCode.min, filters.httpCode.max));
+  }
+  if (filters.tld) params.set(URL_PARAMS.TLD, filters.tld);
+  if (filters.nameserver) params.set(URL_PARAMS.NAMESERVER, filters.nameserver);
+  if (filters.pixelSize && (filters.pixelSize.min !== undefined || filters.pixelSize.max !== undefined)) {
+    params.set(URL_PARAMS.PIXEL_SIZE, formatRange(filters.pixelSize.min, filters.pixelSize.max));
+  }
+  if (selectedDomain) {
+    params.set(URL_PARAMS.SELECTED, selectedDomain);
+  } else if (selectedAreaId !== null) {
+    params.set(URL_PARAMS.SELECTED_AREA, String(selectedAreaId));
+  }
+  if (viewport) params.set(URL_PARAMS.VIEWPORT, formatViewport(viewport));
+
+  // Commas are legal in a query string; keep the viewport readable
+  const serialized = params.toString().replace(/%2C/g, ',');
+  return serialized ? `?${serialized}` : '';
+}
@@ -0,0 +1,310 @@
+/**
+ * Runtime validation for app-data.json
+ *
+ * Every issue carries a JSON pointer (RFC 6901) to the offending value, e.g.
+ * `/areas/812/analytics/dns_status`, so problems can be located in the file.
+ */
+
+import { AppData } from '../types';
+import { Result } from '../types/utils';
+import { AREA_KIND, MATCH_STRATEGY, UNMATCHED_REASON, WHOIS_STATUS } from '../constants';
+
+/** A single schema violation */
+export interface ValidationIssue {
+  readonly path: string;
+  readonly message: string;
+}
+
+/** Error thrown when loaded data does not satisfy the AppData schema */
+export class AppDataValidationError extends Error {
+  readonly issues: readonly ValidationIssue[];
+
+  constructor(issues: readonly ValidationIssue[]) {
+    super(`Invalid data format: ${issues.length} schema violation${issues.length !== 1 ? 's' : ''}`);
+    this.name = 'AppDataValidationError';
+    this.issues = issues;
+  }
+}
+
+type Issues = ValidationIssue[];
+type JsonObject = Record<string, unknown>;
+
+const WHOIS_VALUES: readonly string[] = Object.values(WHOIS_STATUS);
+const AREA_KIND_VALUES: readonly string[] = Object.values(AREA_KIND);
+const MATCH_STRATEGY_VALUES: readonly string[] = Object.values(MATCH_STRATEGY);
+const UNMATCHED_REASON_VALUES: readonly string[] = Object.values(UNMATCHED_REASON);
+const MATCH_STATUS_VALUES: readonly string[] = ['matched', 'unmatched'];
+
+// YYYY-MM-DD with an optional time and zone; Date alone would also take "May 5" or "1"
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const isIsoDate = (value: string): boolean => ISO_DATE_REGEX.test(value) && !Number.isNaN(Date.parse(value));
+
+/**
+ * Format an issue as "path: message" for logs and error screens
+ */
+export const formatValidationIssue = (issue: ValidationIssue): string =>
+  `${issue.path || '/'}: ${issue.message}`;
+
+const escapePointerToken = (token: string | number): string =>
+  String(token).replace(/~/g, '~0').replace(/\//g, '~1');
+
+const pointer = (base: string, token: string | number): string =>
+  `${base}/${escapePointerToken(token)}`;
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function expectObject(value: unknown, path: string, issues: Issues): value is JsonObject {
+  if (!isObject(value)) {
+    issues.push({ path, message: `expected object, got ${describe(value)}` });
+    return false;
+  }
+  return true;
+}
+
+function expectString(value: unknown, path: string, issues: Issues, options: { nonEmpty?: boolean } = {}): boolean {
+  if (typeof value !== 'string') {
+    issues.push({ path, message: `expected string, got ${describe(value)}` });
+    return false;
+  }
+  if (options.nonEmpty && value.length === 0) {
+    issues.push({ path, message: 'expected non-empty string' });
+    return false;
+  }
+  return true;
+}
+
+function expectNumber(value: unknown, path: string, issues: Issues, options: { integer?: boolean; min?: number; max?: number } = {}): boolean {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push({ path, message: `expected number, got ${describe(value)}` });
+    return false;
+  }
+  if (options.integer && !Number.isInteger(value)) {
+    issues.push({ path, message: `expected integer, got ${value}` });
+    return false;
+  }
+  if ((options.min !== undefined && value < options.min) || (options.max !== undefined && value > options.max)) {
+    issues.push({ path, message: `expected value in range ${options.min ?? '-∞'}..${options.max ?? '∞'}, got ${value}` });
+    return false;
+  }
+  return true;
+}
+
+function expectBoolean(value: unknown, path: string, issues: Issues): boolean {
+  if (typeof value !== 'boolean') {
+    issues.push({ path, message: `expected boolean, got ${describe(value)}` });
+    return false;
+  }
+  return true;
+}
+
+function expectDate(value: unknown, path: string, issues: Issues): boolean {
+  if (!expectString(value, path, issues)) return false;
+  if (!isIsoDate(value as string)) {
+    issues.push({ path, message: `expected ISO 8601 date, got "${value}"` });
+    return false;
+  }
+  return true;
+}
+
+function expectOneOf(value: unknown, allowed: readonly string[], path: string, issues: Issues): boolean {
+  if (!expectString(value, path, issues)) return false;
+  if (!allowed.includes(value as string)) {
+    issues.push({ path, message: `expected one of ${allowed.join(', ')}, got "${value}"` });
+    return false;
+  }
+  return true;
+}
+
+function expectCountRecord(value: unknown, path: string, issues: Issues): void {
+  if (!expectObject(value, path, issues)) return;
+  Object.entries(value).forEach(([key, count]) => {
+    expectNumber(count, pointer(path, key), issues, { integer: true, min: 0 });
+  });
+}
+
+function validateCoordinates(value: unknown, path: string, issues: Issues): void {
+  if (!expectObject(value, path, issues)) return;
+  expectNumber(value.x, pointer(path, 'x'), issues);
+  expectNumber(value.y, pointer(path, 'y'), issues);
+  expectNumber(value.width, pointer(path, 'width'), issues, { min: 0 });
+  expectNumber(value.height, pointer(path, 'height'), issues, { min: 0 });
+}
+
+function validateAnalytics(value: unknown, path: string, issues: Issues): void {
+  if (!expectObject(value, path, issues)) return;
+
+  expectString(value.domain, pointer(path, 'domain'), issues, { nonEmpty: true });
+  expectString(value.dns_status, pointer(path, 'dns_status'), issues, { nonEmpty: true });
+  expectNumber(value.http_status, pointer(path, 'http_status'), issues, { integer: true, min: 0 });
+  expectOneOf(value.whois_status, WHOIS_VALUES, pointer(path, 'whois_status'), issues);
+  expectDate(value.analyzed_at, pointer(path, 'analyzed_at'), issues);
+
+  // WHOIS lookups do not always return these, so the report omits them
+  (['registered_at', 'expiry_date', 'last_updated'] as const).forEach(key => {
+    if (value[key] !== undefined && value[key] !== null) {
+      expectDate(value[key], pointer(path, key), issues);
+    }
+  });
+
+  if (value.nameservers !== undefined && value.nameservers !== null) {
+    const nameserversPath = pointer(path, 'nameservers');
+    if (!Array.isArray(value.nameservers)) {
+      issues.push({ path: nameserversPath, message: `expected array, got ${describe(value.nameservers)}` });
+    } else {
+      value.nameservers.forEach((ns, index) => {
+        expectString(ns, pointer(nameserversPath, index), issues, { nonEmpty: true });
+      });
+    }
+  }
+}
+
+function validateAnalyticsMatch(value: unknown, path: string, hasAnalytics: boolean, issues: Issues): void {
+  if (!expectObject(value, path, issues)) return;
+
+  const statusPath = pointer(path, 'status');
+  if (!expectOneOf(value.status, MATCH_STATUS_VALUES, statusPath, issues)) return;
+
+  if (value.status === 'matched') {
+    expectOneOf(value.strategy, MATCH_STRATEGY_VALUES, pointer(path, 'strategy'), issues);
+    expectString(value.reportDomain, pointer(path, 'reportDomain'), issues, { nonEmpty: true });
+  } else {
+    expectOneOf(value.reason, UNMATCHED_REASON_VALUES, pointer(path, 'reason'), issues);
+    expectString(value.detail, pointer(path, 'detail'), issues);
+  }
+
+  if ((value.status === 'matched') !== hasAnalytics) {
+    issues.push({ path: statusPath, message: `is ${value.status} but analytics is ${hasAnalytics ? 'present' : 'null'}` });
+  }
+}
+
+function validateArea(value: unknown, path: string, issues: Issues, seenIds: Set<number>): void {
+  if (!expectObject(value, path, issues)) return;
+
+  const idPath = pointer(path, 'id');
+  if (expectNumber(value.id, idPath, issues, { integer: true, min: 0 })) {
+    if (seenIds.has(value.id as number)) {
+      issues.push({ path: idPath, message: `duplicate area id ${value.id}` });
+    }
+    seenIds.add(value.id as number);
+  }
+
+  expectString(value.domain, pointer(path, 'domain'), issues, { nonEmpty: true });
+  expectString(value.title, pointer(path, 'title'), issues);
+  expectString(value.href, pointer(path, 'href'), issues);
+  expectOneOf(value.kind, AREA_KIND_VALUES, pointer(path, 'kind'), issues);
+  validateCoordinates(value.coordinates, pointer(path, 'coordinates'), issues);
+
+  const rawCoordsPath = pointer(path, 'rawCoords');
+  if (!Array.isArray(value.rawCoords)) {
+    issues.push({ path: rawCoordsPath, message: `expected array, got ${describe(value.rawCoords)}` });
+  } else if (value.rawCoords.length !== 4) {
+    issues.push({ path: rawCoordsPath, message: `expected 4 coordinates, got ${value.rawCoords.length}` });
+  } else {
+    value.rawCoords.forEach((coord, index) => expectNumber(coord, pointer(rawCoordsPath, index), issues));
+  }
+
+  if (value.analytics !== null) {
+    validateAnalytics(value.analytics, pointer(path, 'analytics'), issues);
+  }
+
+  if (expectBoolean(value.hasAnalytics, pointer(path, 'hasAnalytics'), issues) &&
+      value.hasAnalytics !== (value.analytics !== null)) {
+    issues.push({ path: pointer(path, 'hasAnalytics'), message: `is ${value.hasAnalytics} but analytics is ${describe(value.analytics)}` });
+  }
+
+  validateAnalyticsMatch(value.analyticsMatch, pointer(path, 'analyticsMatch'), value.analytics !== null, issues);
+}
+
+function validateMetadata(value: unknown, path: string, issues: Issues): void {
+  if (!expectObject(value, path, issues)) return;
+
+  expectNumber(value.totalAreas, pointer(path, 'totalAreas'), issues, { integer: true, min: 1 });
+  expectNumber(value.areasWithAnalytics, pointer(path, 'areasWithAnalytics'), issues, { integer: true, min: 0 });
+  expectNumber(value.areasWithoutAnalytics, pointer(path, 'areasWithoutAnalytics'), issues, { integer: true, min: 0 });
+  const { totalAreas, areasWithAnalytics, areasWithoutAnalytics } = value;
+  if (typeof totalAreas === 'number' && typeof areasWithAnalytics === 'number' && typeof areasWithoutAnalytics === 'number' &&
+      areasWithAnalytics + areasWithoutAnalytics !== totalAreas) {
+    issues.push({
+      path: pointer(path, 'areasWithoutAnalytics'),
+      message: `is ${areasWithoutAnalytics} but areasWithAnalytics is ${areasWithAnalytics} of ${totalAreas} areas`
+    });
+  }
+  expectString(value.matchRate, pointer(path, 'matchRate'), issues, { nonEmpty: true });
+
+  const rangePath = pointer(path, 'coordinateRange');
+  if (expectObject(value.coordinateRange, rangePath, issues)) {
+    const range = value.coordinateRange;
+    (['minX', 'maxX', 'minY', 'maxY'] as const).forEach(key => {
+      expectNumber(range[key], pointer(rangePath, key), issues);
+    });
+  }
+
+  const analyticsPath = pointer(path, 'analyticsMetadata');
+  if (expectObject(value.analyticsMetadata, analyticsPath, issues)) {
+    const analyticsMetadata = value.analyticsMetadata;
+    expectDate(analyticsMetadata.generated_at, pointer(analyticsPath, 'generated_at'), issues);
+    expectNumber(analyticsMetadata.total_domains, pointer(analyticsPath, 'total_domains'), issues, { integer: true, min: 0 });
+    if (analyticsMetadata.description !== undefined) {
+      expectString(analyticsMetadata.description, pointer(analyticsPath, 'description'), issues);
+    }
+
+    if (analyticsMetadata.summary !== undefined) {
+      const summaryPath = pointer(analyticsPath, 'summary');
+      if (expectObject(analyticsMetadata.summary, summaryPath, issues)) {
+        const summary = analyticsMetadata.summary;
+        (['dns_status', 'http_status', 'whois_status'] as const).forEach(key => {
+          expectCountRecord(summary[key], pointer(summaryPath, key), issues);
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Validate every field of an unknown value against the AppData schema
+ */
+export function validateAppData(data: unknown): Result<AppData, readonly ValidationIssue[]> {
+  const issues: Issues = [];
+
+  if (expectObject(data, '', issues)) {
+    validateMetadata(data.metadata, '/metadata', issues);
+
+    if (!Array.isArray(data.areas)) {
+      issues.push({ path: '/areas', message: `expected array, got ${describe(data.areas)}` });
+    } else if (data.areas.length === 0) {
+      issues.push({ path: '/areas', message: 'expected at least one area' });
+    } else {
+      const seenIds = new Set<number>();
+      data.areas.forEach((area, index) => validateArea(area, pointer('/areas', index), issues, seenIds));
+
+      const metadata = data.metadata;
+      if (isObject(metadata) && typeof metadata.totalAreas === 'number' && metadata.totalAreas !== data.areas.length) {
+        issues.push({ path: '/metadata/totalAreas', message: `is ${metadata.totalAreas} but there are ${data.areas.length} areas` });
+      }
+    }
+  }
+
+  return issues.length === 0
+    ? { success: true, data: data as unknown as AppData }
+    : { success: false, error: issues };
+}
+
+/**
+ * Validate and return the data, throwing AppDataValidationError on failure
+ */
+export function assertAppData(data: unknown): AppData {
+  const result = validateAppData(data);
+  if (!result.success) {
+    throw new AppDataValidationError(result.error);
+  }
+  return result.data;
+}
+
@@ -0,0 +1,58 @@
+/**
+ * Search worker
+ *
+ * Runs the search engine off the main thread. Searches wait one task before
+ * running, so a burst of keystrokes only runs the last one: each newer search
+ * or cancel drops the one still waiting and replies `cancelled` for it.
+ */
+
+import { SearchWorkerRequest, SearchWorkerResponse } from '../types';
+import { SearchEngine, createSearchEngine } from '../utils/searchEngine';
+
+type SearchMessage = Extract<SearchWorkerRequest, { type: 'search' }>;
+
+let engine: SearchEngine | null = null;
+let waiting: SearchMessage | null = null;
+
+const post = (message: SearchWorkerResponse) => self.postMessage(message);
+
+const runWaiting = () => {
+  const message = waiting;
+  waiting = null;
+  if (!message) return;
+
+  if (!engine) {
+    post({ type: 'error', id: message.id, message: 'Search worker has no data' });
+    return;
+  }
+
+  try {
+    post({ type: 'results', id: message.id, response: engine.search(message.request) });
+  } catch (error) {
+    post({ type: 'error', id: message.id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+self.addEventListener('message', (event: MessageEvent<SearchWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'init':
+      engine = createSearchEngine(message.areas);
+      break;
+    case 'search':
+      if (waiting) {
+        post({ type: 'cancelled', id: waiting.id });
+      } else {
+        setTimeout(runWaiting, 0);
+      }
+      waiting = message;
+      break;
+    case 'cancel':
+      if (waiting?.id === message.id) {
+        post({ type: 'cancelled', id: message.id });
+        waiting = null;
+      }
+      break;
+  }
+});